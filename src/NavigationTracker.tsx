@@ -1,5 +1,7 @@
 import { useEffect, useRef, useCallback } from 'react';
 import { emitTrackingEvent } from './trackingBus';
+import { setCurrentScreen } from './screenState';
+import type { ScreenContext } from './screenState';
 import type { NavigationEvent } from './types';
 
 // ── Helpers ──────────────────────────────────────────────────────────
@@ -16,6 +18,42 @@ function getActiveRouteName(state: any): string | undefined {
   return route.name;
 }
 
+/**
+ * Build the {@link ScreenContext} of the deepest active route: its
+ * name, the `/`-joined names of all active routes from the root, and
+ * the params listed in `trackedParams`.
+ *
+ * Only string, number, and boolean params are kept.
+ */
+function getActiveScreen(
+  state: any,
+  trackedParams: readonly string[],
+): ScreenContext | null {
+  const names: string[] = [];
+  let route: any;
+  while (state?.routes) {
+    route = state.routes[state.index ?? 0];
+    if (!route) break;
+    names.push(route.name);
+    state = route.state;
+  }
+  if (!route?.name) return null;
+
+  const params: Record<string, string | number | boolean> = {};
+  for (const key of trackedParams) {
+    const value = route.params?.[key];
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+      params[key] = value;
+    }
+  }
+
+  return {
+    name: route.name,
+    path: names.join('/'),
+    ...(Object.keys(params).length > 0 && { params }),
+  };
+}
+
 /**
  * Infer how a navigation was triggered based on the dispatched action
  * and the change in route depth.
@@ -110,6 +148,15 @@ export interface NavigationTrackerProps {
    * `<NavigationContainer>`.
    */
   navigationRef?: { current: any };
+
+  /**
+   * Route params recorded with the screen on taps, scrolls, custom
+   * events, and frames (e.g. `['productId']`).
+   *
+   * Params are left out by default since they can contain personal
+   * data.  Only string, number, and boolean values are recorded.
+   */
+  trackedRouteParams?: string[];
 }
 
 /**
@@ -127,6 +174,10 @@ export interface NavigationTrackerProps {
  * transition (handled by `SessionCaptureProvider`) so the replay
  * shows both the departure and arrival screens.
  *
+ * It also maintains the current screen, so every tap, scroll, custom
+ * event, and frame is attributed to the screen it happened on — with
+ * its nested navigator path (e.g. `"Tabs/Home/Product"`).
+ *
  * Place it **inside** a `<SessionCaptureProvider>` and alongside
  * (or inside) your navigator:
  *
@@ -140,7 +191,10 @@ export interface NavigationTrackerProps {
  *
  * @see SessionCaptureProvider
  */
-export function NavigationTracker({ navigationRef }: NavigationTrackerProps): null {
+export function NavigationTracker({
+  navigationRef,
+  trackedRouteParams,
+}: NavigationTrackerProps): null {
   const prevRouteRef = useRef<string | undefined>(undefined);
   const prevDepthRef = useRef<number>(0);
   const pendingActionRef = useRef<{
@@ -148,6 +202,10 @@ export function NavigationTracker({ navigationRef }: NavigationTrackerProps): nu
     payload?: Record<string, unknown>;
   } | undefined>(undefined);
 
+  // Latest allow-list, read by the state listener without re-subscribing.
+  const trackedParamsRef = useRef<readonly string[]>([]);
+  trackedParamsRef.current = trackedRouteParams ?? [];
+
   // ── Resolve the navigation container ────────────────────────────
   // We lazily try to require @react-navigation/native so the SDK has
   // no hard compile-time dependency on it.
@@ -191,10 +249,12 @@ export function NavigationTracker({ navigationRef }: NavigationTrackerProps): nu
     const nextDepth = getRouteDepth(state);
     const prevRoute = prevRouteRef.current;
     const prevDepth = prevDepthRef.current;
+    const nextScreen = getActiveScreen(state, trackedParamsRef.current);
 
-    // Skip if route didn't actually change.
+    // Skip if route didn't actually change (params may have).
     if (nextRoute === prevRoute) {
       prevDepthRef.current = nextDepth;
+      setCurrentScreen(nextScreen);
       return;
     }
 
@@ -202,6 +262,7 @@ export function NavigationTracker({ navigationRef }: NavigationTrackerProps): nu
     if (prevRoute === undefined) {
       prevRouteRef.current = nextRoute;
       prevDepthRef.current = nextDepth;
+      setCurrentScreen(nextScreen);
       return;
     }
 
@@ -220,6 +281,10 @@ export function NavigationTracker({ navigationRef }: NavigationTrackerProps): nu
       category: 'navigation',
     });
 
+    // Updated after emitting, so the "before" screenshot taken for the
+    // navigation is still attributed to the departure screen.
+    setCurrentScreen(nextScreen);
+
     prevRouteRef.current = nextRoute;
     prevDepthRef.current = nextDepth;
   }, []);
@@ -237,11 +302,13 @@ export function NavigationTracker({ navigationRef }: NavigationTrackerProps): nu
       const initial = nav.getRootState();
       prevRouteRef.current = getActiveRouteName(initial);
       prevDepthRef.current = getRouteDepth(initial);
+      setCurrentScreen(getActiveScreen(initial, trackedParamsRef.current));
     }
 
     return () => {
       if (typeof unsubState === 'function') unsubState();
       else if (unsubState?.remove) unsubState.remove();
+      setCurrentScreen(null);
     };
   }, [navigationRef, handleStateChange]);
 
@@ -0,0 +1,77 @@
+import React, { forwardRef, useMemo } from 'react';
+import { View } from 'react-native';
+import type { ViewProps } from 'react-native';
+import { createMaskRef } from './privacyMask';
+
+// ── Prop augmentation ────────────────────────────────────────────────
+
+declare module 'react-native' {
+  interface ViewProps {
+    /**
+     * Hide this view in every captured session frame.
+     *
+     * Its on-screen rectangle is blacked out (or pixelated, see
+     * `maskStyle`) before the screenshot is buffered.  Set to `false`
+     * on a `secureTextEntry` input to opt it out of automatic masking.
+     *
+     * Provided by `expo-session-capture`.
+     */
+    sessionCaptureMask?: boolean;
+  }
+
+  interface TextProps {
+    /** @see ViewProps.sessionCaptureMask */
+    sessionCaptureMask?: boolean;
+  }
+
+  interface ImagePropsBase {
+    /** @see ViewProps.sessionCaptureMask */
+    sessionCaptureMask?: boolean;
+  }
+}
+
+// ── Component ────────────────────────────────────────────────────────
+
+/**
+ * Props for `<SessionCaptureMask>`.
+ *
+ * Accepts all standard `ViewProps`.
+ */
+export interface SessionCaptureMaskProps extends ViewProps {
+  children?: React.ReactNode;
+}
+
+/**
+ * A `<View>` whose contents never appear in captured frames.
+ *
+ * Wrap anything sensitive — CPR numbers, card details, health data —
+ * and its on-screen rectangle is measured at capture time and blacked
+ * out (or pixelated, see `maskStyle`) in every screenshot **before**
+ * it enters the upload buffer.  The live UI is unaffected.
+ *
+ * For a single element, the `sessionCaptureMask` prop does the same
+ * without an extra wrapper.  `<TextInput secureTextEntry>` fields are
+ * masked automatically (see `maskSecureTextEntry`).
+ *
+ * @example
+ * ```tsx
+ * <SessionCaptureMask>
+ *   <Text>CPR: {cpr}</Text>
+ * </SessionCaptureMask>
+ *
+ * <Text sessionCaptureMask>{accountNumber}</Text>
+ * ```
+ *
+ * @see SessionCaptureProvider
+ */
+export const SessionCaptureMask = forwardRef<View, SessionCaptureMaskProps>(
+  function SessionCaptureMask({ children, ...rest }, forwardedRef) {
+    const maskRef = useMemo(() => createMaskRef(forwardedRef), [forwardedRef]);
+
+    return (
+      <View {...rest} ref={maskRef} collapsable={false}>
+        {children}
+      </View>
+    );
+  },
+);
@@ -10,10 +10,30 @@ import { AppState, Dimensions, Platform, View } from 'react-native';
 import Constants from 'expo-constants';
 import * as Device from 'expo-device';
 import { CaptureManager } from './captureManager';
-import { shouldSample } from './sampler';
+import { evaluateSampling, isRelevantToRules } from './samplingRules';
 import { installGlobalPressCapture } from './globalPressCapture';
-import { onTrackingEvent } from './trackingBus';
-import type { CaptureContextValue, SessionCaptureConfig, TrackingEvent } from './types';
+import { installGlobalInputCapture } from './globalInputCapture';
+import { createGestureObserver } from './gestureCapture';
+import { installMaskCapture } from './privacyMask';
+import { onTrackingEvent, track } from './trackingBus';
+import { getDefaultStorage } from './storage';
+import { loadConsent, saveConsent } from './consent';
+import { SessionLifecycle } from './sessionLifecycle';
+import { loadAnonymousId, saveAnonymousId } from './identity';
+import {
+  fetchRemoteConfig,
+  loadCachedRemoteConfig,
+  saveRemoteConfig,
+} from './remoteConfig';
+import type {
+  AliasEvent,
+  CaptureContextValue,
+  ConsentState,
+  RemoteConfig,
+  SamplingRule,
+  SessionCaptureConfig,
+  TrackingEvent,
+} from './types';
 
 // ── Context ───────────────────────────────────────────────────────────
 
@@ -57,11 +77,15 @@ function getAppVersion(): string {
 
 // ── Provider ─────────────────────────────────────────────────────────
 
+/** Stable defaults so memoised values don't change on every render. */
+const NO_SAMPLING_RULES: SamplingRule[] = [];
+const EMPTY_SET: ReadonlySet<string> = new Set();
+
 /**
  * Props for `<SessionCaptureProvider>`.
  *
- * Extends {@link SessionCaptureConfig} with `children` and
- * `enableGlobalPressCapture`.
+ * Extends {@link SessionCaptureConfig} with `children` and the global
+ * capture switches.
  */
 export interface SessionCaptureProviderProps extends SessionCaptureConfig {
   children: React.ReactNode;
@@ -69,7 +93,7 @@ export interface SessionCaptureProviderProps extends SessionCaptureConfig {
   /**
    * When `true` (default), all `Pressable` / `TouchableOpacity` /
    * `TouchableHighlight` presses are captured **automatically** via a
-   * global `React.createElement` patch.
+   * global patch of `React.createElement` and the automatic JSX runtime.
    *
    * Events from `<TrackedPressable>` are never duplicated — the
    * global layer skips handlers marked as explicit.
@@ -80,6 +104,38 @@ export interface SessionCaptureProviderProps extends SessionCaptureConfig {
    * @default true
    */
   enableGlobalPressCapture?: boolean;
+
+  /**
+   * When `true`, focus, blur, change counts, and submit of every
+   * `<TextInput>` are recorded **automatically** via the same global
+   * patch.  Fields are named after their `testID`, `nativeID`,
+   * `accessibilityLabel`, or — as a last resort, since it is usually
+   * translated — `placeholder`.
+   *
+   * Fields rendered by `<TrackedTextInput>` are never duplicated.
+   *
+   * @default false
+   */
+  enableGlobalInputCapture?: boolean;
+
+  /**
+   * Names of auto-captured fields whose typed value may be recorded.
+   * All other values are never recorded; `secureTextEntry` fields are
+   * never recorded.
+   *
+   * @default []
+   */
+  capturedInputValues?: string[];
+
+  /**
+   * When `true` (default), every touch on the root view is classified
+   * into tap, double tap, long press, swipe, or pinch and recorded in
+   * `gestures`.  Touches are only observed — gestures are never
+   * intercepted.
+   *
+   * @default true
+   */
+  enableGestureCapture?: boolean;
 }
 
 /**
@@ -88,16 +144,24 @@ export interface SessionCaptureProviderProps extends SessionCaptureConfig {
  * Wrap your entire app (or the subtree you want to capture) in this
  * component.  It handles:
  *
- * 1. **Deterministic sampling** — decides whether this user is
- *    captured based on `userId` + `samplingRate`.
+ * 1. **Consent & sampling** — captures nothing until consent is
+ *    granted, then decides whether this user is captured based on
+ *    `userId` + `samplingRate`, refined by `samplingRules`.  Remote
+ *    config from `{endpointUrl}/config` can override both or switch
+ *    capture off.
  * 2. **Screenshot capture** — takes periodic and interaction-driven
- *    screenshots of the root `<View>` via `react-native-view-shot`.
+ *    screenshots of the root `<View>` via `react-native-view-shot`,
+ *    with sensitive regions masked before buffering.
  * 3. **Event recording** — subscribes to the internal tracking bus
- *    to buffer taps, scrolls, and navigation events.
+ *    to buffer taps, scrolls, navigation, and custom events.
  * 4. **Batch upload** — flushes buffered data to
- *    `{endpointUrl}/ingest` on a timer and when the app backgrounds.
- * 5. **Identity** — provides the `identify()` API to link anonymous
- *    sessions to real users after login.
+ *    `{endpointUrl}/ingest` on a timer and when the app backgrounds,
+ *    through a persistent offline queue.
+ * 5. **Identity** — persists a stable anonymous ID per install and
+ *    provides `identify()` / `reset()` to link sessions to real users
+ *    after login and rotate the anonymous ID on logout.
+ * 6. **Capture control** — `pause()`, `resume()`, and `captureNow()`
+ *    for sensitive flows and on-demand screenshots.
  *
  * @example
  * ```tsx
@@ -120,6 +184,9 @@ export function SessionCaptureProvider({
   apiKey,
   endpointUrl,
   samplingRate = 0.1,
+  samplingSalt = '',
+  samplingHash = 'fnv1a',
+  samplingRules = NO_SAMPLING_RULES,
   maxFrames = 500,
   throttleMs = 200,
   imageQuality = 0.1,
@@ -128,46 +195,274 @@ export function SessionCaptureProvider({
   flushIntervalMs = 10_000,
   periodicCaptureMs = 1000,
   idleTimeoutMs = 10_000,
+  frameDedup = 'exact',
+  frameDiffThreshold = 0.002,
+  frameEncoding = 'full',
+  tileSize = 64,
+  keyframeInterval = 10,
+  payloadFormat = 'json',
+  maxPayloadBytes = 1_000_000,
+  signRequests = false,
+  encryptionPublicKey,
+  transport,
+  storage,
+  maxQueuedUploads = 50,
+  maxQueueBytes = 5_000_000,
+  queueEvictionPolicy = 'drop-oldest',
+  retryBaseDelayMs = 1000,
+  retryMaxDelayMs = 300_000,
+  onUploadResult,
+  onFrustrationSignal,
+  rageTapCount = 3,
+  rageTapWindowMs = 1000,
+  maskStyle = 'blackout',
+  maskSecureTextEntry = true,
+  consent: consentProp,
+  defaultConsent = 'pending',
+  sessionTimeoutMs = 30 * 60_000,
+  newSessionOnIdentify = false,
+  remoteConfig: remoteConfigEnabled = true,
+  remoteConfigTtlMs = 60 * 60_000,
   enableGlobalPressCapture = true,
+  enableGlobalInputCapture = false,
+  capturedInputValues,
+  enableGestureCapture = true,
 }: SessionCaptureProviderProps) {
   const rootRef = useRef<View>(null);
-  const sessionId = useMemo(() => uuid(), []);
+  const resolvedStorage = useMemo(
+    () => storage ?? getDefaultStorage(),
+    // Intentionally resolved once per mount.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [],
+  );
+
+  // ── Session lifecycle ──────────────────────────────────────────────
+  // The session ID is persisted and resumed across launches and
+  // remounts; it rotates after `sessionTimeoutMs` in the background.
+  // Capture waits until the persisted session has been restored.
+  const lifecycle = useMemo(
+    () =>
+      new SessionLifecycle({
+        storage: resolvedStorage,
+        timeoutMs: sessionTimeoutMs,
+        createId: uuid,
+      }),
+    // Intentionally created once per mount.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [],
+  );
+  const [sessionId, setSessionId] = useState<string>(() => lifecycle.sessionId);
+  const [isSessionReady, setIsSessionReady] = useState(false);
+
+  // ── Consent ────────────────────────────────────────────────────────
+  // Nothing is captured until consent is known.  A controlled `consent`
+  // prop wins; otherwise the decision persisted by a previous launch is
+  // restored, falling back to `defaultConsent`.  Every decision is
+  // persisted so it survives restarts.
+  const [consent, setConsentState] = useState<ConsentState>(consentProp ?? 'pending');
+
+  useEffect(() => {
+    if (consentProp) return;
+    let cancelled = false;
+    loadConsent(resolvedStorage).then((saved) => {
+      if (!cancelled) setConsentState(saved ?? defaultConsent);
+    });
+    return () => {
+      cancelled = true;
+    };
+    // Only restore on mount; later changes go through setConsent().
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  useEffect(() => {
+    if (!consentProp) return;
+    setConsentState(consentProp);
+    saveConsent(resolvedStorage, consentProp);
+  }, [consentProp, resolvedStorage]);
+
+  const setConsent = useCallback(
+    (state: ConsentState) => {
+      setConsentState(state);
+      saveConsent(resolvedStorage, state);
+    },
+    [resolvedStorage],
+  );
 
   // ── Anonymous / identified user ID ─────────────────────────────────
-  // Sessions start with an anonymous UUID. When `identify()` is called
-  // (e.g. after login), the ID switches to the real user and all
-  // subsequent uploads carry the identified ID.
-  const anonymousId = useMemo(() => `anon-${uuid()}`, []);
+  // Sessions start with an anonymous ID that is persisted per install,
+  // so anonymous users keep their sampling bucket across launches.
+  // When `identify()` is called (e.g. after login), the ID switches to
+  // the real user and all subsequent uploads carry the identified ID.
+  // Capture waits until the persisted anonymous ID has been restored.
+  const [anonymousId, setAnonymousId] = useState<string>(() => `anon-${uuid()}`);
   const [currentUserId, setCurrentUserId] = useState<string>(
     userId ?? anonymousId,
   );
   const [isAnonymous, setIsAnonymous] = useState<boolean>(!userId);
+  const [isIdentityReady, setIsIdentityReady] = useState(false);
+
+  const anonymousIdRef = useRef(anonymousId);
+  anonymousIdRef.current = anonymousId;
+  const isAnonymousRef = useRef(isAnonymous);
+  isAnonymousRef.current = isAnonymous;
+  const isIdentityReadyRef = useRef(isIdentityReady);
+  isIdentityReadyRef.current = isIdentityReady;
 
-  // Sync if the parent passes a new userId prop.
   useEffect(() => {
-    if (userId) {
-      setCurrentUserId(userId);
-      setIsAnonymous(false);
-    }
-  }, [userId]);
+    let cancelled = false;
+    loadAnonymousId(resolvedStorage, () => `anon-${uuid()}`).then((id) => {
+      if (cancelled) return;
+      anonymousIdRef.current = id;
+      setAnonymousId(id);
+      if (isAnonymousRef.current) setCurrentUserId(id);
+      setIsIdentityReady(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [resolvedStorage]);
 
   // ── Install global press capture (once, synchronously) ─────────────
-  // Patches `React.createElement` to auto-intercept `onPress` on all
-  // pressable components (Pressable, TouchableOpacity, TouchableHighlight).
-  // Handlers created by `<TrackedPressable>` are skipped to avoid
-  // duplicate events.  Safe to call multiple times — only patches once.
+  // Patches `React.createElement` and `react/jsx-runtime` to
+  // auto-intercept `onPress` on all pressable components (Pressable,
+  // TouchableOpacity, TouchableHighlight) and, if enabled, focus / blur /
+  // edits of every TextInput.
+  // Handlers created by `<TrackedPressable>` and `<TrackedTextInput>` are
+  // skipped to avoid duplicate events.  Safe to call multiple times —
+  // only patches once.
   useMemo(() => {
     if (enableGlobalPressCapture) {
       installGlobalPressCapture();
     }
+    if (enableGlobalInputCapture) {
+      installGlobalInputCapture({ capturedValues: capturedInputValues });
+    }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
-  const isActive = useMemo(
-    () => shouldSample(currentUserId, samplingRate),
-    [currentUserId, samplingRate],
+  // ── Gesture observer (once) ────────────────────────────────────────
+  // Spread onto the root view: watches every touch through the
+  // responder capture phase without ever claiming it, remembers the
+  // last touch (to place presses whose handlers get no event), and —
+  // if enabled — emits the classified gestures onto the tracking bus.
+  const gestureObserver = useMemo(
+    () => createGestureObserver({ classify: enableGestureCapture }),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [],
   );
 
+  // ── Install privacy masks (once, synchronously) ────────────────────
+  // Enables the `sessionCaptureMask` prop on host views and, unless
+  // disabled, masks every `<TextInput secureTextEntry>` automatically.
+  // Always installed, independent of `enableGlobalPressCapture`.
+  useMemo(() => {
+    installMaskCapture({ maskSecureTextEntry });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // ── Remote config ──────────────────────────────────────────────────
+  // A config document from `{endpointUrl}/config` overrides the props,
+  // so capture can be tuned or killed (`enabled: false`) without an app
+  // release.  The cached copy is applied first (capture waits for it);
+  // a stale or missing cache is refreshed from the network in the
+  // background.
+  const [remote, setRemote] = useState<RemoteConfig | null>(null);
+  const [isRemoteConfigReady, setIsRemoteConfigReady] = useState(!remoteConfigEnabled);
+
+  useEffect(() => {
+    if (!remoteConfigEnabled) return;
+    let cancelled = false;
+
+    loadCachedRemoteConfig(resolvedStorage).then((cached) => {
+      if (cancelled) return;
+      if (cached) setRemote(cached.config);
+      setIsRemoteConfigReady(true);
+
+      if (cached && Date.now() - cached.fetchedAt < remoteConfigTtlMs) return;
+      fetchRemoteConfig(endpointUrl, apiKey).then((config) => {
+        if (!config) return;
+        saveRemoteConfig(resolvedStorage, { config, fetchedAt: Date.now() });
+        if (!cancelled) setRemote(config);
+      });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+    // Fetched once per mount.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const isEnabled = remote?.enabled !== false;
+  const activeSamplingRate = remote?.samplingRate ?? samplingRate;
+  const activeSamplingRules = remote?.samplingRules ?? samplingRules;
+
+  // ── Sampling ───────────────────────────────────────────────────────
+  // The base `samplingRate` can be overridden by `samplingRules` that
+  // match the user, app version, screens visited, or event categories
+  // fired in this session.  The decision is re-evaluated whenever that
+  // context changes (identify, navigation, events) and resets with each
+  // new session.
+  const [sessionScreens, setSessionScreens] = useState<ReadonlySet<string>>(EMPTY_SET);
+  const [sessionCategories, setSessionCategories] = useState<ReadonlySet<string>>(EMPTY_SET);
+
+  useEffect(() => {
+    setSessionScreens(EMPTY_SET);
+    setSessionCategories(EMPTY_SET);
+  }, [sessionId]);
+
+  useEffect(() => {
+    if (activeSamplingRules.length === 0) return;
+    return onTrackingEvent((event) => {
+      const { screen, category } = event;
+      if (screen && isRelevantToRules(activeSamplingRules, { screen })) {
+        setSessionScreens((prev) => (prev.has(screen) ? prev : new Set(prev).add(screen)));
+      }
+      if (category && isRelevantToRules(activeSamplingRules, { category })) {
+        setSessionCategories((prev) =>
+          prev.has(category) ? prev : new Set(prev).add(category),
+        );
+      }
+    });
+  }, [activeSamplingRules]);
+
+  const isSampled = useMemo(
+    () =>
+      evaluateSampling(
+        activeSamplingRules,
+        {
+          userId: currentUserId,
+          appVersion: getAppVersion(),
+          screens: sessionScreens,
+          eventCategories: sessionCategories,
+        },
+        activeSamplingRate,
+        { salt: samplingSalt, hash: samplingHash },
+      ),
+    [
+      activeSamplingRules,
+      currentUserId,
+      sessionScreens,
+      sessionCategories,
+      activeSamplingRate,
+      samplingSalt,
+      samplingHash,
+    ],
+  );
+  const isActive =
+    isEnabled &&
+    isSampled &&
+    consent === 'granted' &&
+    isSessionReady &&
+    isIdentityReady &&
+    isRemoteConfigReady;
+
+  // Keep the latest callbacks without recreating the manager.
+  const onUploadResultRef = useRef(onUploadResult);
+  onUploadResultRef.current = onUploadResult;
+  const onFrustrationSignalRef = useRef(onFrustrationSignal);
+  onFrustrationSignalRef.current = onFrustrationSignal;
+
   const manager = useMemo(
     () =>
       new CaptureManager({
@@ -185,13 +480,96 @@ export function SessionCaptureProvider({
         flushIntervalMs,
         periodicCaptureMs,
         idleTimeoutMs,
+        storage: resolvedStorage,
+        maxQueuedUploads,
+        maxQueueBytes,
+        queueEvictionPolicy,
+        retryBaseDelayMs,
+        retryMaxDelayMs,
+        onUploadResult: (result) => onUploadResultRef.current?.(result),
+        onFrustrationSignal: (signal) => onFrustrationSignalRef.current?.(signal),
+        rageTapCount,
+        rageTapWindowMs,
+        maskStyle,
+        consent,
+        frameDedup,
+        frameDiffThreshold,
+        frameEncoding,
+        tileSize,
+        keyframeInterval,
+        payloadFormat,
+        maxPayloadBytes,
+        signRequests,
+        encryptionPublicKey,
+        transport,
       }),
     // Intentionally created once per mount.
     // eslint-disable-next-line react-hooks/exhaustive-deps
     [],
   );
 
-  // Activate if this user is sampled.
+  // Apply remote overrides to the running manager.
+  useEffect(() => {
+    manager.updateOptions({
+      maxFrames: remote?.maxFrames ?? maxFrames,
+      throttleMs: remote?.throttleMs ?? throttleMs,
+      imageQuality: remote?.imageQuality ?? imageQuality,
+      flushIntervalMs: remote?.flushIntervalMs ?? flushIntervalMs,
+      periodicCaptureMs: remote?.periodicCaptureMs ?? periodicCaptureMs,
+      idleTimeoutMs: remote?.idleTimeoutMs ?? idleTimeoutMs,
+    });
+  }, [
+    manager,
+    remote,
+    maxFrames,
+    throttleMs,
+    imageQuality,
+    flushIntervalMs,
+    periodicCaptureMs,
+    idleTimeoutMs,
+  ]);
+
+  // Restore (or start) the session before the first activation.
+  useEffect(() => {
+    let cancelled = false;
+    lifecycle.restore().then(({ session, resumed, expired }) => {
+      if (cancelled) return;
+      if (resumed) {
+        manager.resumeSession(session.sessionId);
+      } else {
+        if (expired) {
+          manager.resumeSession(expired.sessionId);
+          manager.endSession('timeout', expired.lastActiveAt);
+        }
+        manager.startSession(session.sessionId, expired ? 'timeout' : 'new', session.startedAt);
+      }
+      setSessionId(session.sessionId);
+      setIsSessionReady(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [lifecycle, manager]);
+
+  /** End the current session and start a new one. */
+  const rotateSession = useCallback(
+    (reason: 'timeout' | 'user-change', endedAt: number = Date.now()) => {
+      manager.endSession(reason, endedAt);
+      const nextId = lifecycle.rotate();
+      manager.startSession(nextId, reason);
+      setSessionId(nextId);
+    },
+    [lifecycle, manager],
+  );
+
+  // Propagate consent before (de)activating so the manager's first
+  // flush after an opt-in is allowed to upload, and an opt-out purges
+  // everything the deactivating flush just queued.
+  useEffect(() => {
+    manager.setConsent(consent);
+  }, [consent, manager]);
+
+  // Activate if this user is sampled and has consented.
   useEffect(() => {
     const { width, height } = Dimensions.get('window');
     manager.setDeviceInfo({
@@ -219,19 +597,28 @@ export function SessionCaptureProvider({
   }, [isActive, manager]);
 
   // ── Bridge tracking bus → CaptureManager ──────────────────────────
-  // All tracking events (presses, navigations) flow through a central
-  // event bus (`trackingBus.ts`).  This effect subscribes to the bus
-  // and routes events to the CaptureManager:
+  // All tracking events (presses, navigations, custom events) flow
+  // through a central event bus (`trackingBus.ts`).  This effect
+  // subscribes to the bus and routes events to the CaptureManager:
   //
   //   • Navigation events → screenshot before + after transition,
   //     plus a `registerNavigation()` call.
   //   • Press events     → `registerTap()` + immediate screenshot
   //     + follow-up screenshot ~300 ms later to capture the result.
+  //   • Custom events    → `registerCustomEvent()`, plus a screenshot
+  //     labelled with the event name if requested.
+  //   • Input events     → `registerInput()`, plus a throttled
+  //     screenshot on focus and validation errors.
+  //   • Gesture events   → `registerGesture()`, plus a throttled
+  //     follow-up screenshot for anything but taps (those are
+  //     covered by press events).
   //
   // All capture calls are fire-and-forget (.catch(() => {})) so they
   // never crash the host app.
   useEffect(() => {
     const unsubscribe = onTrackingEvent((event: TrackingEvent) => {
+      lifecycle.touch(event.timestamp);
+
       if (event.type === 'navigation') {
         // Screenshot BEFORE navigation (capture departure screen).
         manager.captureImmediate(rootRef).catch(() => {});
@@ -254,6 +641,43 @@ export function SessionCaptureProvider({
         return;
       }
 
+      if (event.type === 'custom') {
+        if (!event.name) return;
+        manager.registerCustomEvent({
+          name: event.name,
+          timestamp: event.timestamp,
+          properties: event.properties,
+        });
+        if (event.screenshot) {
+          manager.captureImmediate(rootRef, event.name).catch(() => {});
+        }
+        return;
+      }
+
+      if (event.type === 'input') {
+        if (!event.input) return;
+        manager.registerInput({
+          ...event.input,
+          timestamp: event.timestamp,
+          source: event.source,
+        });
+        if (event.input.type === 'focus' || event.input.type === 'validation-error') {
+          manager.capture(rootRef).catch(() => {});
+        }
+        return;
+      }
+
+      if (event.type === 'gesture') {
+        if (!event.gesture) return;
+        manager.registerGesture({ ...event.gesture, timestamp: event.timestamp });
+        if (event.gesture.type !== 'tap') {
+          setTimeout(() => {
+            manager.capture(rootRef).catch(() => {});
+          }, 300);
+        }
+        return;
+      }
+
       // Press events
       if (!event.coordinates) return;
 
@@ -264,6 +688,11 @@ export function SessionCaptureProvider({
         screen: event.screen,
         label: event.label,
         category: event.category,
+        metadata: event.metadata,
+        componentName: event.componentName,
+        accessibilityRole: event.accessibilityRole,
+        testID: event.testID,
+        handler: event.handler,
         source: event.source,
       });
 
@@ -277,48 +706,166 @@ export function SessionCaptureProvider({
     });
 
     return unsubscribe;
-  }, [manager, rootRef]);
+  }, [manager, rootRef, lifecycle]);
 
   // ── Flush on background / inactive ─────────────────────────────────
   // When the app moves to background or becomes inactive (e.g. the user
   // switches apps), flush all buffered data immediately so no frames
-  // are lost if the OS kills the process.
+  // are lost if the OS kills the process.  Returning to the foreground
+  // after more than `sessionTimeoutMs` starts a new session.
   useEffect(() => {
     const subscription = AppState.addEventListener('change', (state) => {
       if (state !== 'active') {
-        manager.flush();
+        lifecycle.touch(Date.now(), true);
+        manager.flush().catch(() => {});
+        return;
+      }
+
+      if (lifecycle.isExpired()) {
+        rotateSession('timeout', lifecycle.lastActiveAt);
+      } else {
+        lifecycle.touch();
       }
     });
 
     return () => subscription.remove();
-  }, [manager]);
+  }, [manager, lifecycle, rotateSession]);
 
   // ── Identify API ───────────────────────────────────────────────────
   // Allows child components to call `identify('user-42')` to link the
   // current anonymous session to a real user.  The new ID is propagated
   // to the CaptureManager so all subsequent uploads carry it.
+  //
+  // Identifying an anonymous user records an alias event linking the
+  // anonymous ID to the real one, so the backend can merge history.
+  // Before the persisted anonymous ID has loaded (e.g. a restored login
+  // at launch), the alias waits for it — the placeholder ID is never
+  // used by any session.
+  const pendingAliasRef = useRef<Omit<AliasEvent, 'anonymousId'> | null>(null);
+
+  useEffect(() => {
+    const pending = pendingAliasRef.current;
+    if (!isIdentityReady || !pending) return;
+    pendingAliasRef.current = null;
+    manager.registerAlias({ anonymousId: anonymousIdRef.current, ...pending });
+  }, [isIdentityReady, manager]);
+
   const identify = useCallback(
     (newUserId: string) => {
+      if (isAnonymousRef.current) {
+        const alias = { userId: newUserId, timestamp: Date.now() };
+        if (isIdentityReadyRef.current) {
+          manager.registerAlias({ anonymousId: anonymousIdRef.current, ...alias });
+        } else {
+          pendingAliasRef.current = alias;
+        }
+      } else if (newSessionOnIdentify && newUserId !== manager.getUserId()) {
+        // Rotate before switching the ID so the old session's data is
+        // uploaded under the previous user.
+        rotateSession('user-change');
+      }
+
+      isAnonymousRef.current = false;
       setCurrentUserId(newUserId);
       setIsAnonymous(false);
       manager.setUserId(newUserId);
     },
-    [manager],
+    [manager, newSessionOnIdentify, rotateSession],
   );
 
+  // Sync if the parent passes a new userId prop.
+  useEffect(() => {
+    if (userId) identify(userId);
+    // Only react to prop changes, not to a new `identify` identity.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [userId]);
+
+  // ── Reset API ──────────────────────────────────────────────────────
+  // Call on logout: rotates the anonymous ID (persisted), drops the
+  // identified user, and starts a new session so the next person using
+  // the device is not stitched to the previous one.
+  const reset = useCallback(() => {
+    const nextAnonymousId = `anon-${uuid()}`;
+    rotateSession('user-change');
+    saveAnonymousId(resolvedStorage, nextAnonymousId);
+
+    anonymousIdRef.current = nextAnonymousId;
+    isAnonymousRef.current = true;
+    setAnonymousId(nextAnonymousId);
+    setCurrentUserId(nextAnonymousId);
+    setIsAnonymous(true);
+    manager.setUserId(nextAnonymousId);
+  }, [manager, resolvedStorage, rotateSession]);
+
   // Keep manager in sync when currentUserId changes (e.g. from prop).
   useEffect(() => {
     manager.setUserId(currentUserId);
   }, [currentUserId, manager]);
 
+  // ── Manual capture control ─────────────────────────────────────────
+  // `pause()` / `resume()` bracket sensitive flows; the paused period is
+  // uploaded as an explicit gap.  `captureNow()` takes an on-demand,
+  // labelled screenshot.
+  const [isPaused, setIsPaused] = useState(false);
+
+  const pause = useCallback(
+    (reason?: string) => {
+      manager.pause(reason);
+      setIsPaused(true);
+    },
+    [manager],
+  );
+
+  const resume = useCallback(() => {
+    manager.resume();
+    setIsPaused(false);
+  }, [manager]);
+
+  const captureNow = useCallback(
+    (label?: string) => manager.captureImmediate(rootRef, label).catch(() => {}),
+    [manager],
+  );
+
   const contextValue = useMemo<CaptureContextValue>(
-    () => ({ manager, rootRef, isActive, identify, userId: currentUserId, isAnonymous }),
-    [manager, isActive, identify, currentUserId, isAnonymous],
+    () => ({
+      manager,
+      rootRef,
+      isActive,
+      identify,
+      userId: currentUserId,
+      sessionId,
+      isAnonymous,
+      anonymousId,
+      reset,
+      pause,
+      resume,
+      captureNow,
+      track,
+      isPaused,
+      consent,
+      setConsent,
+    }),
+    [
+      manager,
+      isActive,
+      identify,
+      currentUserId,
+      sessionId,
+      isAnonymous,
+      anonymousId,
+      reset,
+      pause,
+      resume,
+      captureNow,
+      isPaused,
+      consent,
+      setConsent,
+    ],
   );
 
   return (
     <CaptureContext.Provider value={contextValue}>
-      <View ref={rootRef} style={{ flex: 1 }} collapsable={false}>
+      <View ref={rootRef} style={{ flex: 1 }} collapsable={false} {...gestureObserver}>
         {children}
       </View>
     </CaptureContext.Provider>
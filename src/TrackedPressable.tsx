@@ -1,6 +1,7 @@
 import React, { useCallback } from 'react';
 import { Pressable } from 'react-native';
 import type { PressableProps, GestureResponderEvent } from 'react-native';
+import { toJsonSafe } from './jsonSafe';
 import { emitTrackingEvent, EXPLICIT_HANDLER } from './trackingBus';
 
 /**
@@ -45,7 +46,9 @@ export interface TrackedPressableProps extends PressableProps {
   /**
    * Arbitrary extra data sent with the tracking event.
    *
-   * Included in the {@link TrackingEvent.metadata} field.
+   * Included in the {@link TrackingEvent.metadata} field.  Values JSON
+   * cannot represent (circular references, `BigInt`s, functions) are
+   * dropped.
    *
    * @example `{ productId: 42, price: 79.99 }`
    */
@@ -93,14 +96,27 @@ export function TrackedPressable({
         source: 'explicit',
         label: trackingLabel,
         category: trackingCategory,
-        metadata: trackingMetadata,
+        metadata: toJsonSafe(trackingMetadata),
+        componentName: 'TrackedPressable',
+        accessibilityRole: rest.accessibilityRole ?? rest.role,
+        testID: rest.testID,
+        handler: 'onPress',
         screen: tapScreen,
         coordinates: { x: pageX, y: pageY },
       });
 
       onPress?.(e);
     },
-    [onPress, tapScreen, trackingLabel, trackingCategory, trackingMetadata],
+    [
+      onPress,
+      tapScreen,
+      trackingLabel,
+      trackingCategory,
+      trackingMetadata,
+      rest.accessibilityRole,
+      rest.role,
+      rest.testID,
+    ],
   );
 
   // Mark so globalPressCapture skips this handler.
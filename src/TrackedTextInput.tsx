@@ -0,0 +1,142 @@
+import React, { forwardRef, useEffect, useRef } from 'react';
+import { TextInput } from 'react-native';
+import type {
+  NativeSyntheticEvent,
+  TextInputProps,
+  TextInputSubmitEditingEventData,
+} from 'react-native';
+import { FieldRecorder } from './globalInputCapture';
+import type { FieldOptions } from './globalInputCapture';
+import { EXPLICIT_HANDLER } from './trackingBus';
+
+/**
+ * Props for `<TrackedTextInput>`.
+ *
+ * Extends all standard `TextInputProps` with the field's tracking
+ * identity and an optional validation error.
+ */
+export interface TrackedTextInputProps extends TextInputProps {
+  /**
+   * Field name reported with every event.
+   *
+   * @example `"email"`, `"cpr-number"`
+   */
+  trackingField: string;
+
+  /**
+   * Form the field belongs to, so abandoned fields can be grouped per
+   * form in the dashboard.
+   *
+   * @example `"housing-benefit-application"`
+   */
+  trackingForm?: string;
+
+  /**
+   * Record the typed text on blur and submit.
+   *
+   * Off by default — only enable it for fields that never contain
+   * personal data.  Ignored for `secureTextEntry` fields.
+   *
+   * @default false
+   */
+  trackValue?: boolean;
+
+  /**
+   * The field's current validation message.  Each time it changes to
+   * a non-empty string, a `validation-error` event is recorded.
+   */
+  validationError?: string;
+}
+
+/**
+ * Drop-in replacement for React Native's `<TextInput>` that records
+ * form interactions: focus, blur (with change count and time spent),
+ * submit, and validation errors.
+ *
+ * The typed value is **never** recorded unless `trackValue` is set.
+ * The global input-capture layer skips these fields, so there are
+ * never duplicate events.
+ *
+ * @example
+ * ```tsx
+ * <TrackedTextInput
+ *   trackingField="email"
+ *   trackingForm="signup"
+ *   validationError={errors.email}
+ *   value={email}
+ *   onChangeText={setEmail}
+ * />
+ * ```
+ *
+ * @see SessionCaptureProvider — the provider that consumes these events.
+ */
+export const TrackedTextInput = forwardRef<TextInput, TrackedTextInputProps>(
+  function TrackedTextInput(
+    {
+      trackingField,
+      trackingForm,
+      trackValue = false,
+      validationError,
+      onFocus,
+      onBlur,
+      onChangeText,
+      onSubmitEditing,
+      ...rest
+    },
+    ref,
+  ) {
+    const options: FieldOptions = {
+      field: trackingField,
+      form: trackingForm,
+      captureValue: trackValue && rest.secureTextEntry !== true,
+      source: 'explicit',
+    };
+    const recorderRef = useRef<FieldRecorder | null>(null);
+    if (recorderRef.current) {
+      recorderRef.current.update(options);
+    } else {
+      recorderRef.current = new FieldRecorder(options);
+    }
+    const recorder = recorderRef.current;
+
+    useEffect(() => {
+      if (validationError) recorder.error(validationError);
+    }, [validationError, recorder]);
+
+    const handleFocus = (e: Parameters<NonNullable<TextInputProps['onFocus']>>[0]) => {
+      recorder.focus();
+      onFocus?.(e);
+    };
+
+    // Mark so globalInputCapture skips this field.
+    (handleFocus as any)[EXPLICIT_HANDLER] = true;
+
+    const handleBlur = (e: Parameters<NonNullable<TextInputProps['onBlur']>>[0]) => {
+      recorder.blur();
+      onBlur?.(e);
+    };
+
+    const handleChangeText = (text: string) => {
+      recorder.change(text);
+      onChangeText?.(text);
+    };
+
+    const handleSubmitEditing = (
+      e: NativeSyntheticEvent<TextInputSubmitEditingEventData>,
+    ) => {
+      recorder.submit();
+      onSubmitEditing?.(e);
+    };
+
+    return (
+      <TextInput
+        {...rest}
+        ref={ref}
+        onFocus={handleFocus}
+        onBlur={handleBlur}
+        onChangeText={handleChangeText}
+        onSubmitEditing={handleSubmitEditing}
+      />
+    );
+  },
+);
@@ -0,0 +1,246 @@
+import React from 'react';
+import { TextInput } from 'react-native';
+import { captureRef } from 'react-native-view-shot';
+import { CaptureManager } from '../captureManager';
+import type { CaptureManagerOptions } from '../captureManager';
+import { installGlobalPressCapture, registerPressableType } from '../globalPressCapture';
+import { createMaskRef } from '../privacyMask';
+import type { StorageAdapter } from '../storage';
+import type { UploadPayload, UploadResult } from '../types';
+
+jest.mock('react-native', () => ({ TextInput: function TextInput() {} }));
+jest.mock('react-native-view-shot', () => ({ captureRef: jest.fn() }));
+
+// ── Helpers ───────────────────────────────────────────────────────────
+
+function createMemoryStorage(): StorageAdapter & { data: Map<string, string> } {
+  const data = new Map<string, string>();
+  return {
+    data,
+    getItem: async (key) => data.get(key) ?? null,
+    setItem: async (key, value) => {
+      data.set(key, value);
+    },
+    removeItem: async (key) => {
+      data.delete(key);
+    },
+  };
+}
+
+function createManager(overrides: Partial<CaptureManagerOptions> = {}) {
+  const storage = createMemoryStorage();
+  const sent: UploadPayload[] = [];
+  const manager = new CaptureManager({
+    sessionId: 'session-1',
+    userId: 'user-1',
+    endpointUrl: 'https://example.test',
+    apiKey: 'key',
+    maxFrames: 500,
+    throttleMs: 200,
+    imageQuality: 0.1,
+    imageWidth: 200,
+    imageHeight: 400,
+    device: 'test',
+    appVersion: '1.0.0',
+    flushIntervalMs: 60_000,
+    periodicCaptureMs: 0,
+    idleTimeoutMs: 0,
+    storage,
+    maxQueuedUploads: 50,
+    maxQueueBytes: 5_000_000,
+    queueEvictionPolicy: 'drop-oldest',
+    retryBaseDelayMs: 1000,
+    retryMaxDelayMs: 300_000,
+    rageTapCount: 3,
+    rageTapWindowMs: 1000,
+    maskStyle: 'blackout',
+    consent: 'granted',
+    frameDedup: 'off',
+    frameDiffThreshold: 0.002,
+    frameEncoding: 'full',
+    tileSize: 64,
+    keyframeInterval: 10,
+    payloadFormat: 'json',
+    maxPayloadBytes: 1_000_000,
+    signRequests: false,
+    transport: {
+      send: async (payload) => {
+        sent.push(payload);
+        return { status: 200 };
+      },
+    },
+    ...overrides,
+  });
+  return { manager, storage, sent };
+}
+
+/** Let pending storage writes and flushes settle. */
+async function settle(): Promise<void> {
+  for (let i = 0; i < 20; i++) await new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+/** Keys of queued payloads (and the queue index) in storage. */
+function queuedKeys(storage: { data: Map<string, string> }): string[] {
+  return [...storage.data.keys()].filter((key) => key.includes('outbox:'));
+}
+
+// ── Consent purge ─────────────────────────────────────────────────────
+
+describe('CaptureManager consent purge', () => {
+  it('discards every chunk of a split flush started before denial', async () => {
+    const { manager, storage, sent } = createManager({ maxPayloadBytes: 300 });
+    manager.start();
+    await settle();
+
+    for (let i = 0; i < 10; i++) {
+      manager.registerCustomEvent({ name: `event-${i}`, timestamp: Date.now() + i });
+    }
+
+    // The provider's opt-out: stop() flushes, then consent is denied.
+    manager.stop();
+    manager.setConsent('denied');
+    await settle();
+
+    expect(queuedKeys(storage)).toEqual([]);
+
+    // Nothing from before the denial may upload after a later re-grant.
+    manager.setConsent('granted');
+    manager.start();
+    await settle();
+    manager.stop();
+    await settle();
+
+    expect(sent.flatMap((payload) => payload.customEvents ?? [])).toEqual([]);
+  });
+
+  it('still uploads every chunk of a split flush with consent', async () => {
+    const { manager, sent } = createManager({ maxPayloadBytes: 300 });
+    manager.start();
+    await settle();
+
+    for (let i = 0; i < 10; i++) {
+      manager.registerCustomEvent({ name: `event-${i}`, timestamp: Date.now() + i });
+    }
+    manager.stop();
+    await settle();
+
+    expect(sent.length).toBeGreaterThan(1);
+    expect(sent.flatMap((payload) => payload.customEvents ?? []).map((e) => e.name)).toEqual(
+      Array.from({ length: 10 }, (_, i) => `event-${i}`),
+    );
+  });
+});
+
+// ── Unserializable properties ─────────────────────────────────────────
+
+describe('CaptureManager with unserializable event properties', () => {
+  it('keeps the buffer and drops only the bad values', async () => {
+    const { manager, sent } = createManager();
+    manager.start();
+    await settle();
+
+    const circular: Record<string, unknown> = { ok: 1, big: BigInt(1) };
+    circular.self = circular;
+    manager.registerCustomEvent({ name: 'bad', timestamp: Date.now(), properties: circular });
+    manager.registerCustomEvent({ name: 'good', timestamp: Date.now() + 1 });
+
+    // Rotating the session serializes the buffer synchronously.
+    expect(() => manager.startSession('session-2', 'user-change')).not.toThrow();
+    manager.stop();
+    await settle();
+
+    const events = sent.flatMap((payload) => payload.customEvents ?? []);
+    expect(events).toEqual([
+      expect.objectContaining({ name: 'bad', properties: { ok: 1 } }),
+      expect.objectContaining({ name: 'good' }),
+    ]);
+  });
+});
+
+// ── Privacy masks ─────────────────────────────────────────────────────
+
+describe('CaptureManager with privacy masks', () => {
+  const mask = createMaskRef();
+
+  beforeEach(() => {
+    jest.mocked(captureRef).mockResolvedValue('unmasked-jpeg');
+    mask({ measureInWindow: (callback: (...rect: number[]) => void) => callback(0, 0, 10, 10) });
+  });
+
+  afterEach(() => mask(null));
+
+  it('drops the frame when the root cannot be measured', async () => {
+    const { manager, sent } = createManager();
+    manager.start();
+    await settle();
+
+    await manager.captureImmediate({ current: null });
+    manager.stop();
+    await settle();
+
+    expect(sent.flatMap((payload) => payload.frames ?? [])).toEqual([]);
+    expect(manager.capturedFrames).toBe(0);
+  });
+});
+
+// ── Dead taps ─────────────────────────────────────────────────────────
+
+describe('CaptureManager dead taps with default options', () => {
+  function AppButton(): null {
+    return null;
+  }
+
+  beforeAll(() => {
+    // The provider's defaults: press capture on, input capture off.
+    installGlobalPressCapture();
+    registerPressableType(AppButton);
+    React.createElement(AppButton, { onPress: () => {} });
+  });
+
+  async function tapAndSettle(focusTextInput: boolean) {
+    const { manager, sent } = createManager();
+    manager.start();
+    await settle();
+
+    const timestamp = Date.now();
+    manager.registerGesture({ type: 'tap', timestamp, durationMs: 80, x: 50, y: 50, pointerCount: 1 });
+    if (focusTextInput) {
+      const element = React.createElement(TextInput, {}) as { props: { onFocus?: () => void } };
+      element.props.onFocus?.();
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, 300));
+    manager.stop();
+    await settle();
+    return sent.flatMap((payload) => payload.frustrationSignals ?? []);
+  }
+
+  it('reports a tap nothing handled', async () => {
+    expect(await tapAndSettle(false)).toEqual([expect.objectContaining({ type: 'dead-tap' })]);
+  });
+
+  it('does not report a tap that focused a text field', async () => {
+    expect(await tapAndSettle(true)).toEqual([]);
+  });
+});
+
+// ── Retries ───────────────────────────────────────────────────────────
+
+describe('CaptureManager retry delay', () => {
+  it('caps a long Retry-After at retryMaxDelayMs', async () => {
+    const results: UploadResult[] = [];
+    const { manager } = createManager({
+      retryMaxDelayMs: 60_000,
+      onUploadResult: (result) => results.push(result),
+      transport: { send: async () => ({ status: 503, retryAfter: 365 * 24 * 3600 * 1000 }) },
+    });
+    manager.start();
+    await settle();
+
+    manager.registerCustomEvent({ name: 'event', timestamp: Date.now() });
+    manager.stop();
+    await settle();
+
+    expect(results).toEqual([expect.objectContaining({ status: 'retry', retryInMs: 60_000 })]);
+  });
+});
@@ -0,0 +1,56 @@
+import { FrustrationDetector } from '../frustrationDetector';
+import type { FrustrationSignal } from '../types';
+
+function createDetector(canDetectDeadTaps = true) {
+  const signals: FrustrationSignal[] = [];
+  const detector = new FrustrationDetector({
+    rageTapCount: 3,
+    rageTapWindowMs: 1000,
+    onSignal: (signal) => signals.push(signal),
+    canDetectDeadTaps: () => canDetectDeadTaps,
+  });
+  return { detector, signals };
+}
+
+describe('FrustrationDetector dead taps', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  it('reports a tap no press handled', () => {
+    const { detector, signals } = createDetector();
+    detector.tap({ x: 10, y: 10, timestamp: 1000 });
+    jest.advanceTimersByTime(300);
+    expect(signals).toEqual([{ type: 'dead-tap', x: 10, y: 10, timestamp: 1000 }]);
+  });
+
+  it('does not report a tap a press handled', () => {
+    const { detector, signals } = createDetector();
+    detector.tap({ x: 10, y: 10, timestamp: 1000 });
+    detector.press({ x: 12, y: 11, timestamp: 1010 });
+    jest.advanceTimersByTime(300);
+    expect(signals).toEqual([]);
+  });
+
+  it('does not report a tap while press capture is not effective', () => {
+    const { detector, signals } = createDetector(false);
+    detector.tap({ x: 10, y: 10, timestamp: 1000 });
+    jest.advanceTimersByTime(300);
+    expect(signals).toEqual([]);
+  });
+
+  it('treats a text field focus close in time as handled', () => {
+    const { detector, signals } = createDetector();
+    detector.tap({ x: 10, y: 10, timestamp: 1000 });
+    detector.focus(1050);
+    detector.focus(5000);
+    detector.tap({ x: 50, y: 50, timestamp: 5100 });
+    jest.advanceTimersByTime(300);
+    expect(signals).toEqual([]);
+  });
+
+  it('still detects rage taps while dead taps are off', () => {
+    const { detector, signals } = createDetector(false);
+    for (let i = 0; i < 3; i++) detector.tap({ x: 10, y: 10, timestamp: 1000 + i * 100 });
+    expect(signals.map((signal) => signal.type)).toEqual(['rage-tap']);
+  });
+});
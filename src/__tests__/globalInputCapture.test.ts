@@ -0,0 +1,82 @@
+import React from 'react';
+import { TextInput } from 'react-native';
+import { installGlobalInputCapture } from '../globalInputCapture';
+import type { TrackingEvent } from '../types';
+
+const emitted: TrackingEvent[] = [];
+
+jest.mock('react-native', () => ({
+  TextInput: function TextInput() {},
+  DeviceEventEmitter: { emit: (_: string, event: TrackingEvent) => emitted.push(event) },
+}));
+
+// ── Helpers ───────────────────────────────────────────────────────────
+
+type FieldProps = Record<string, (event: unknown) => void>;
+
+/** Render a `TextInput` through the patched factory and return its props. */
+function render(props: Record<string, unknown>): FieldProps {
+  return (React.createElement(TextInput, props) as unknown as { props: FieldProps }).props;
+}
+
+/** An event from the field instance with native tag `target`. */
+function event(target: number, text?: string) {
+  return { nativeEvent: { target, ...(text !== undefined && { text }) } };
+}
+
+function blurs() {
+  return emitted
+    .filter((e) => e.input?.type === 'blur')
+    .map((e) => ({ field: e.input?.field, changeCount: e.input?.changeCount }));
+}
+
+beforeAll(() => installGlobalInputCapture());
+beforeEach(() => {
+  emitted.length = 0;
+});
+
+// ── Recorders ─────────────────────────────────────────────────────────
+
+describe('installGlobalInputCapture', () => {
+  it('counts changes per field instance, even with the same name', () => {
+    const first = render({ placeholder: 'Name' });
+    const second = render({ placeholder: 'Name' });
+
+    first.onFocus(event(1));
+    first.onChange(event(1, 'a'));
+    first.onChange(event(1, 'ab'));
+    second.onFocus(event(2));
+    second.onChange(event(2, 'x'));
+    first.onBlur(event(1));
+    second.onBlur(event(2));
+
+    expect(blurs()).toEqual([
+      { field: 'Name', changeCount: 2 },
+      { field: 'Name', changeCount: 1 },
+    ]);
+  });
+
+  it('keeps counting across re-renders of the same field', () => {
+    render({ testID: 'email' }).onFocus(event(3));
+    render({ testID: 'email' }).onChange(event(3, 'a'));
+    render({ testID: 'email' }).onBlur(event(3));
+
+    expect(blurs()).toEqual([{ field: 'email', changeCount: 1 }]);
+  });
+
+  it('prefers a testID over the placeholder', () => {
+    const field = render({ testID: 'email', placeholder: 'E-mail-adresse' });
+    field.onFocus(event(4));
+    field.onBlur(event(4));
+
+    expect(blurs()).toEqual([{ field: 'email', changeCount: 0 }]);
+  });
+
+  it('still calls the app handlers', () => {
+    const onChange = jest.fn();
+    const field = render({ testID: 'name', onChange });
+    field.onChange(event(5, 'a'));
+
+    expect(onChange).toHaveBeenCalledWith(event(5, 'a'));
+  });
+});
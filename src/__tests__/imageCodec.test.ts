@@ -0,0 +1,20 @@
+import { decodeJpeg, encodeJpeg } from '../imageCodec';
+
+describe('encodeJpeg', () => {
+  const globals = globalThis as { Buffer?: unknown };
+  const nodeBuffer = globals.Buffer;
+
+  afterEach(() => {
+    globals.Buffer = nodeBuffer;
+  });
+
+  it('encodes without a global Buffer and does not install one', () => {
+    delete globals.Buffer;
+    const image = { width: 16, height: 8, data: new Uint8Array(16 * 8 * 4).fill(200) };
+
+    const decoded = decodeJpeg(encodeJpeg(image, 0.9));
+
+    expect(decoded).toMatchObject({ width: 16, height: 8 });
+    expect(globals.Buffer).toBeUndefined();
+  });
+});
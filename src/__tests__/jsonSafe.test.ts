@@ -0,0 +1,47 @@
+import { toJsonSafe } from '../jsonSafe';
+
+describe('toJsonSafe', () => {
+  it('keeps plain JSON values', () => {
+    const value = { a: 1, b: 'x', c: [true, null, { d: 2.5 }] };
+    expect(toJsonSafe(value)).toEqual(value);
+  });
+
+  it('drops what JSON cannot represent', () => {
+    const value: Record<string, unknown> = {
+      big: BigInt(10),
+      fn: () => {},
+      symbol: Symbol('s'),
+      missing: undefined,
+      list: [1, BigInt(2), () => {}],
+      nan: NaN,
+      keep: 'yes',
+    };
+    value.self = value;
+
+    const safe = toJsonSafe(value);
+    expect(safe).toEqual({ list: [1, null, null], nan: null, keep: 'yes' });
+    expect(() => JSON.stringify(safe)).not.toThrow();
+  });
+
+  it('keeps shared, non-circular references', () => {
+    const shared = { id: 1 };
+    expect(toJsonSafe({ a: shared, b: shared })).toEqual({ a: { id: 1 }, b: { id: 1 } });
+  });
+
+  it('honours toJSON and skips throwing getters', () => {
+    const value = {
+      at: new Date(0),
+      get broken(): never {
+        throw new Error('nope');
+      },
+    };
+    expect(toJsonSafe(value)).toEqual({ at: '1970-01-01T00:00:00.000Z' });
+  });
+
+  it('copies, so later mutations do not leak in', () => {
+    const value = { count: 1 };
+    const safe = toJsonSafe(value);
+    value.count = 2;
+    expect(safe).toEqual({ count: 1 });
+  });
+});
@@ -0,0 +1,69 @@
+import { createMaskRef, measureMaskRects } from '../privacyMask';
+
+jest.mock('react-native', () => ({ TextInput: function TextInput() {} }));
+
+// ── Helpers ───────────────────────────────────────────────────────────
+
+/** A host instance that reports `rect` from `measureInWindow`. */
+function view(rect: [number, number, number, number] | 'throws') {
+  return {
+    measureInWindow(callback: (x: number, y: number, width: number, height: number) => void) {
+      if (rect === 'throws') throw new Error('unmounted');
+      callback(...rect);
+    },
+  };
+}
+
+const unmounts: (() => void)[] = [];
+
+/** Register `instance` as a mask until the end of the test. */
+function mountMask(instance: unknown): void {
+  const ref = createMaskRef();
+  ref(instance);
+  unmounts.push(() => ref(null));
+}
+
+afterEach(() => {
+  for (const unmount of unmounts.splice(0)) unmount();
+});
+
+const root = { current: view([0, 0, 100, 200]) } as never;
+
+// ── Measurement ───────────────────────────────────────────────────────
+
+describe('measureMaskRects', () => {
+  it('returns no rects when nothing is masked', async () => {
+    await expect(measureMaskRects({ current: null })).resolves.toEqual([]);
+  });
+
+  it('normalises mask rects to the root', async () => {
+    mountMask(view([10, 20, 30, 40]));
+    const [rect] = await measureMaskRects(root);
+    expect(rect.x).toBeCloseTo(8 / 100);
+    expect(rect.y).toBeCloseTo(18 / 200);
+    expect(rect.width).toBeCloseTo(34 / 100);
+    expect(rect.height).toBeCloseTo(44 / 200);
+  });
+
+  it('rejects when the root is not mounted', async () => {
+    mountMask(view([10, 20, 30, 40]));
+    await expect(measureMaskRects({ current: null })).rejects.toThrow();
+  });
+
+  it('rejects when the root cannot be measured', async () => {
+    mountMask(view([10, 20, 30, 40]));
+    await expect(measureMaskRects({ current: view('throws') } as never)).rejects.toThrow();
+    await expect(measureMaskRects({ current: view([0, 0, 0, 0]) } as never)).rejects.toThrow();
+  });
+
+  it('rejects when a mask cannot be measured', async () => {
+    mountMask(view([10, 20, 30, 40]));
+    mountMask(view('throws'));
+    await expect(measureMaskRects(root)).rejects.toThrow();
+  });
+
+  it('rejects when a mask reports an empty size', async () => {
+    mountMask(view([10, 20, 0, 0]));
+    await expect(measureMaskRects(root)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,68 @@
+import { sanitizeRemoteConfig } from '../remoteConfig';
+import { evaluateSampling } from '../samplingRules';
+
+describe('sanitizeRemoteConfig', () => {
+  it('keeps a valid document as is', () => {
+    const doc = {
+      enabled: true,
+      samplingRate: 0.2,
+      flushIntervalMs: 5000,
+      periodicCaptureMs: 0,
+      samplingRules: [{ screens: ['Checkout'], rate: 1 }, { userIds: ['u1'] }],
+    };
+    expect(sanitizeRemoteConfig(doc)).toEqual(doc);
+  });
+
+  it('drops rules with malformed conditions or rates', () => {
+    const config = sanitizeRemoteConfig({
+      samplingRules: [
+        { screens: 'Checkout' },
+        { userIds: [1, 2] },
+        { appVersions: ['1.0'], rate: 2 },
+        { eventCategories: ['purchase'], rate: '0.5' },
+        null,
+        ['Checkout'],
+        { screens: ['Checkout'], rate: 0.5 },
+      ],
+    });
+    expect(config.samplingRules).toEqual([{ screens: ['Checkout'], rate: 0.5 }]);
+  });
+
+  it('produces rules the rules engine can evaluate', () => {
+    const config = sanitizeRemoteConfig({ samplingRules: [{ screens: 'Checkout' }] });
+    const context = {
+      userId: 'user-1',
+      appVersion: '1.0.0',
+      screens: new Set(['Checkout']),
+      eventCategories: new Set<string>(),
+    };
+    expect(() => evaluateSampling(config.samplingRules ?? [], context, 0)).not.toThrow();
+  });
+
+  it('clamps numbers into their accepted ranges', () => {
+    expect(
+      sanitizeRemoteConfig({
+        samplingRate: 5,
+        imageQuality: -1,
+        flushIntervalMs: 0,
+        periodicCaptureMs: 10,
+        idleTimeoutMs: 0,
+        throttleMs: Infinity,
+      }),
+    ).toEqual({
+      samplingRate: 1,
+      imageQuality: 0,
+      flushIntervalMs: 1000,
+      periodicCaptureMs: 500,
+      idleTimeoutMs: 0,
+      throttleMs: 60_000,
+    });
+  });
+
+  it('ignores values of the wrong type and unknown keys', () => {
+    expect(
+      sanitizeRemoteConfig({ enabled: 'no', samplingRate: NaN, maxFrames: '10', extra: 1 }),
+    ).toEqual({});
+    expect(sanitizeRemoteConfig(null)).toEqual({});
+  });
+});
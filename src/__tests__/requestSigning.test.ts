@@ -0,0 +1,97 @@
+import { createHash, createHmac } from 'crypto';
+import { RequestSigner } from '../requestSigning';
+import { classifyStatus } from '../uploadPolicy';
+import type { UploadPayload } from '../types';
+
+// ── Helpers ───────────────────────────────────────────────────────────
+
+const KEY = Buffer.from('0123456789abcdef0123456789abcdef');
+
+const payload = {
+  sessionId: 'session-1',
+  userId: 'user-1',
+  device: 'test',
+  appVersion: '1.0.0',
+} as UploadPayload;
+
+/** Answer the handshake with `status` and, on success, {@link KEY}. */
+function mockHandshake(status: number) {
+  const fetchMock = jest.fn(async () => ({
+    status,
+    headers: { get: () => null },
+    json: async () => ({ keyId: 'key-1', key: KEY.toString('base64') }),
+  }));
+  global.fetch = fetchMock as unknown as typeof fetch;
+  return fetchMock;
+}
+
+/** The expected signature, computed with Node's `crypto`. */
+function nodeSignature(headers: Record<string, string>, body: string | Uint8Array): string {
+  const bodyHash = createHash('sha256').update(body).digest('hex');
+  const timestamp = headers['X-Signature-Timestamp'];
+  const nonce = headers['X-Signature-Nonce'];
+  return createHmac('sha256', KEY)
+    .update(`${timestamp}\n${nonce}\n${payload.sessionId}\n${bodyHash}`)
+    .digest('hex');
+}
+
+function createSigner() {
+  return new RequestSigner({
+    handshakeUrl: 'https://example.test/session',
+    getHeaders: async () => ({ 'x-api-key': 'key' }),
+  });
+}
+
+const originalFetch = global.fetch;
+afterEach(() => {
+  global.fetch = originalFetch;
+});
+
+// ── Signing ───────────────────────────────────────────────────────────
+
+describe('RequestSigner', () => {
+  it('signs the canonical request like Node crypto', async () => {
+    mockHandshake(200);
+    const body = '{"frames":[],"note":"æøå"}';
+
+    const signed = await createSigner().sign(payload, body);
+    if (!('headers' in signed)) throw new Error('Signing failed');
+    const { headers } = signed;
+
+    expect(headers['X-Signature-Key-Id']).toBe('key-1');
+    expect(headers['X-Signature']).toBe(nodeSignature(headers, body));
+  });
+
+  it('signs binary bodies', async () => {
+    mockHandshake(200);
+    const body = Uint8Array.from({ length: 300 }, (_, i) => i % 256);
+
+    const signed = await createSigner().sign(payload, body);
+    if (!('headers' in signed)) throw new Error('Signing failed');
+    const { headers } = signed;
+
+    expect(headers['X-Signature']).toBe(nodeSignature(headers, body));
+  });
+
+  it('reuses the session key', async () => {
+    const fetchMock = mockHandshake(200);
+    const signer = createSigner();
+    await signer.sign(payload, 'a');
+    await signer.sign(payload, 'b');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it.each([
+    [400, 'retryable'],
+    [404, 'retryable'],
+    [413, 'retryable'],
+    [500, 'retryable'],
+    [401, 'auth'],
+    [403, 'auth'],
+  ])('classifies a %p handshake as %p', async (status, expected) => {
+    mockHandshake(status);
+    const signed = await createSigner().sign(payload, 'body');
+    if (!('failure' in signed)) throw new Error('Signing succeeded');
+    expect(classifyStatus(signed.failure.status)).toBe(expected);
+  });
+});
@@ -0,0 +1,162 @@
+import { sampleBucket, shouldSample } from '../sampler';
+
+// ── Fixtures ──────────────────────────────────────────────────────────
+
+const ID_COUNT = 100_000;
+const BUCKETS = 100;
+
+/**
+ * Chi-square critical value for 99 degrees of freedom at p = 0.001.
+ * A uniform hash exceeds it in one run out of a thousand.
+ */
+const CHI_SQUARE_99_P001 = 148.23;
+
+/** Deterministic PRNG (mulberry32), so every run tests the same IDs. */
+function prng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 2 ** 32;
+  };
+}
+
+/** UUID v4-shaped IDs, like the SDK's anonymous IDs. */
+function uuids(count: number, seed: number): string[] {
+  const random = prng(seed);
+  const hex = (length: number) =>
+    Array.from({ length }, () => Math.floor(random() * 16).toString(16)).join('');
+  return Array.from(
+    { length: count },
+    () => `${hex(8)}-${hex(4)}-4${hex(3)}-${'89ab'[Math.floor(random() * 4)]}${hex(3)}-${hex(12)}`,
+  );
+}
+
+/** Sequential IDs, like database primary keys. */
+function sequentialIds(count: number): string[] {
+  return Array.from({ length: count }, (_, i) => `user-${i}`);
+}
+
+function chiSquare(ids: string[], salt?: string): { statistic: number; counts: number[] } {
+  const counts = new Array<number>(BUCKETS).fill(0);
+  for (const id of ids) counts[Math.floor(sampleBucket(id, { salt }) * BUCKETS)]++;
+
+  const expected = ids.length / BUCKETS;
+  const statistic = counts.reduce((sum, count) => sum + (count - expected) ** 2 / expected, 0);
+  return { statistic, counts };
+}
+
+function sampledCount(ids: string[], rate: number, salt?: string): number {
+  return ids.filter((id) => shouldSample(id, rate, { salt })).length;
+}
+
+// ── Uniformity ────────────────────────────────────────────────────────
+
+describe('sampleBucket uniformity across 100k IDs', () => {
+  const cases: [string, string[]][] = [
+    ['UUIDs', uuids(ID_COUNT, 1)],
+    ['sequential IDs', sequentialIds(ID_COUNT)],
+  ];
+
+  it.each(cases)('spreads %s evenly over 100 buckets (chi-square)', (_, ids) => {
+    const { statistic, counts } = chiSquare(ids);
+
+    expect(statistic).toBeLessThan(CHI_SQUARE_99_P001);
+    // ±15 % of the expected 1000 per bucket is more than 4 standard deviations.
+    expect(Math.min(...counts)).toBeGreaterThan(850);
+    expect(Math.max(...counts)).toBeLessThan(1150);
+  });
+
+  it('stays uniform with a salt', () => {
+    expect(chiSquare(uuids(ID_COUNT, 2), 'checkout-study').statistic).toBeLessThan(
+      CHI_SQUARE_99_P001,
+    );
+  });
+
+  it('maps every ID into [0, 1)', () => {
+    for (const id of uuids(1000, 3)) {
+      const bucket = sampleBucket(id);
+      expect(bucket).toBeGreaterThanOrEqual(0);
+      expect(bucket).toBeLessThan(1);
+    }
+  });
+});
+
+// ── Rates ─────────────────────────────────────────────────────────────
+
+describe('shouldSample rates across 100k IDs', () => {
+  const ids = uuids(ID_COUNT, 4);
+
+  // Tolerance: 4 standard deviations of a binomial(100k, rate).
+  it.each([0.5, 0.1, 0.01, 0.001, 0.0005])('samples %p of users', (rate) => {
+    const tolerance = 4 * Math.sqrt(ID_COUNT * rate * (1 - rate));
+    expect(Math.abs(sampledCount(ids, rate) - ID_COUNT * rate)).toBeLessThan(tolerance);
+  });
+
+  it('samples nobody at 0 and everybody at 1', () => {
+    expect(sampledCount(ids.slice(0, 1000), 0)).toBe(0);
+    expect(sampledCount(ids.slice(0, 1000), 1)).toBe(1000);
+  });
+
+  it('keeps users sampled at a lower rate when the rate is raised', () => {
+    const sampled = ids.filter((id) => shouldSample(id, 0.05));
+    expect(sampled.every((id) => shouldSample(id, 0.2))).toBe(true);
+  });
+});
+
+// ── Stability and independence ────────────────────────────────────────
+
+describe('shouldSample stability', () => {
+  it('always gives the same user the same decision', () => {
+    for (const id of uuids(1000, 5)) {
+      expect(shouldSample(id, 0.3)).toBe(shouldSample(id, 0.3));
+      expect(sampleBucket(id, { salt: 'a' })).toBe(sampleBucket(id, { salt: 'a' }));
+    }
+  });
+
+  it('puts anagram IDs into different buckets', () => {
+    const anagrams = ['user-123', 'user-132', 'user-213', 'user-231', 'user-312', 'user-321'];
+    const buckets = new Set(anagrams.map((id) => sampleBucket(id)));
+    expect(buckets.size).toBe(anagrams.length);
+  });
+
+  it('samples independent cohorts for different salts', () => {
+    const ids = uuids(ID_COUNT, 6);
+    const rate = 0.1;
+    const both = ids.filter(
+      (id) => shouldSample(id, rate, { salt: 'study-a' }) && shouldSample(id, rate, { salt: 'study-b' }),
+    ).length;
+
+    // Independent cohorts overlap in rate² of users.
+    const expected = ID_COUNT * rate * rate;
+    expect(Math.abs(both - expected)).toBeLessThan(4 * Math.sqrt(expected));
+  });
+});
+
+// ── Legacy hash ───────────────────────────────────────────────────────
+
+describe("hash: 'legacy'", () => {
+  /** The character-code sum used by earlier SDK versions. */
+  function legacyShouldSample(userId: string, rate: number): boolean {
+    if (rate <= 0) return false;
+    if (rate >= 1) return true;
+    const sum = Array.from(userId).reduce((acc, char) => acc + char.charCodeAt(0), 0);
+    return (sum % 100) / 100 < rate;
+  }
+
+  it('keeps every user in the bucket earlier versions put them in', () => {
+    for (const id of [...uuids(5000, 7), ...sequentialIds(5000)]) {
+      for (const rate of [0.05, 0.1, 0.5]) {
+        expect(shouldSample(id, rate, { hash: 'legacy' })).toBe(legacyShouldSample(id, rate));
+      }
+    }
+  });
+
+  it('ignores the salt', () => {
+    expect(sampleBucket('user-42', { hash: 'legacy', salt: 'x' })).toBe(
+      sampleBucket('user-42', { hash: 'legacy' }),
+    );
+  });
+});
@@ -0,0 +1,37 @@
+import { setCurrentScreen, withCurrentScreen } from '../screenState';
+
+describe('withCurrentScreen', () => {
+  beforeEach(() => {
+    setCurrentScreen({ name: 'Product', path: 'Tabs/Home/Product', params: { productId: 42 } });
+  });
+
+  afterAll(() => setCurrentScreen(null));
+
+  it('attributes an item to the current screen', () => {
+    expect(withCurrentScreen({})).toEqual({
+      screen: 'Product',
+      screenPath: 'Tabs/Home/Product',
+      screenParams: { productId: 42 },
+    });
+  });
+
+  it('adds the path and params when the explicit screen is the current one', () => {
+    expect(withCurrentScreen({ screen: 'Product' })).toEqual({
+      screen: 'Product',
+      screenPath: 'Tabs/Home/Product',
+      screenParams: { productId: 42 },
+    });
+  });
+
+  it("never gives an explicit screen another route's path or params", () => {
+    expect(withCurrentScreen({ screen: 'Checkout' })).toEqual({ screen: 'Checkout' });
+  });
+
+  it('keeps explicit fields', () => {
+    expect(withCurrentScreen({ screenPath: 'Custom', screenParams: {} })).toEqual({
+      screen: 'Product',
+      screenPath: 'Custom',
+      screenParams: {},
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { decodeJpeg, encodeJpeg } from '../imageCodec';
+import type { RgbaImage } from '../imageCodec';
+import { TileDecoder, TileEncoder } from '../tileCodec';
+
+// ── Fixtures ──────────────────────────────────────────────────────────
+
+const WIDTH = 128;
+const HEIGHT = 128;
+
+/**
+ * A textured frame whose top-left quarter brightens by `fade` — in
+ * steps small enough to stay under the encoder's tolerance, as in a
+ * slow fade animation.
+ */
+function frame(fade: number): RgbaImage {
+  const data = new Uint8Array(WIDTH * HEIGHT * 4);
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      const i = (y * WIDTH + x) * 4;
+      const texture = ((x * 7) ^ (y * 13)) & 63;
+      const offset = x < WIDTH / 2 && y < HEIGHT / 2 ? fade : 0;
+      data[i] = 60 + texture + offset;
+      data[i + 1] = 90 + ((texture * 3) & 63) + offset;
+      data[i + 2] = 120 + (x & 31) + offset;
+      data[i + 3] = 255;
+    }
+  }
+  return { width: WIDTH, height: HEIGHT, data };
+}
+
+/** Mean and maximum per-channel error of `actual` against `expected`. */
+function errors(expected: RgbaImage, actual: RgbaImage): { mean: number; max: number } {
+  let sum = 0;
+  let max = 0;
+  for (let i = 0; i < expected.data.length; i += 4) {
+    for (let c = 0; c < 3; c++) {
+      const error = Math.abs(expected.data[i + c] - actual.data[i + c]);
+      sum += error;
+      max = Math.max(max, error);
+    }
+  }
+  return { mean: sum / ((expected.data.length / 4) * 3), max };
+}
+
+/** Encoder tolerance per channel, see `PIXEL_TOLERANCE`. */
+const PIXEL_TOLERANCE = 8;
+
+// ── Round trip ────────────────────────────────────────────────────────
+
+describe('TileEncoder / TileDecoder round trip', () => {
+  it.each([3, 5])(
+    'rebuilds a slow fade (%p per frame) no worse than a keyframe at tile quality',
+    (fadeStep) => {
+      const encoder = new TileEncoder({ tileSize: 32, keyframeInterval: 100 });
+      const decoder = new TileDecoder();
+      const quality = 0.1;
+
+      for (let i = 0; i < 12; i++) {
+        // Captures arrive as high-quality JPEGs, like `captureRef` output.
+        const capture = encodeJpeg(frame(Math.min(i, 8) * fadeStep), 0.95);
+        const pixels = decodeJpeg(capture);
+        const actual = errors(pixels, decoder.decode(encoder.encode(capture, i, quality, false)));
+        const keyframe = errors(pixels, decodeJpeg(encodeJpeg(pixels, quality)));
+
+        expect(actual.mean).toBeLessThanOrEqual(keyframe.mean);
+        expect(actual.max).toBeLessThanOrEqual(keyframe.max + PIXEL_TOLERANCE);
+      }
+    },
+  );
+
+  it('compares new frames with exactly the pixels the decoder rebuilt', () => {
+    const encoder = new TileEncoder({ tileSize: 32, keyframeInterval: 100 });
+    const decoder = new TileDecoder();
+    for (let i = 0; i < 4; i++) {
+      const encoded = encoder.encode(encodeJpeg(frame(i * 10), 0.95), i, 0.1, false);
+      const decoded = decoder.decode(encoded);
+      const reference = encoder['reference'];
+      expect(reference && Buffer.from(reference.data).equals(decoded.data)).toBe(true);
+    }
+  });
+
+  it('does not send unchanged tiles again', () => {
+    const encoder = new TileEncoder({ tileSize: 32, keyframeInterval: 100 });
+    const encode = (fade: number, timestamp: number) =>
+      encoder.encode(encodeJpeg(frame(fade), 0.95), timestamp, 0.1, false);
+
+    expect(encode(0, 0).keyframe).toBe(true);
+    expect(encode(40, 1).tiles).toHaveLength(4);
+    for (let i = 2; i < 6; i++) expect(encode(40, i).tiles).toEqual([]);
+  });
+
+  it('decodes every frame it encodes', () => {
+    const encoder = new TileEncoder({ tileSize: 32, keyframeInterval: 3 });
+    const decoder = new TileDecoder();
+    for (let i = 0; i < 8; i++) {
+      const encoded = encoder.encode(encodeJpeg(frame(i * 10), 0.95), i, 0.5, false);
+      expect(decoder.decode(encoded)).toMatchObject({ width: WIDTH, height: HEIGHT });
+    }
+  });
+});
@@ -0,0 +1,87 @@
+// ── Alphabet ──────────────────────────────────────────────────────────
+
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+const LOOKUP = (() => {
+  const table = new Int16Array(256).fill(-1);
+  for (let i = 0; i < ALPHABET.length; i++) table[ALPHABET.charCodeAt(i)] = i;
+  // Accept the URL-safe variant as well.
+  table['-'.charCodeAt(0)] = 62;
+  table['_'.charCodeAt(0)] = 63;
+  return table;
+})();
+
+// ── Conversion ────────────────────────────────────────────────────────
+
+/**
+ * Decode a base-64 string into bytes.
+ *
+ * Whitespace, line breaks and padding are ignored, so the output of
+ * Android's line-wrapping encoder is accepted as-is.  Works without
+ * `atob` or `Buffer` (neither is guaranteed on Hermes).
+ *
+ * @internal
+ */
+export function base64ToBytes(input: string): Uint8Array {
+  const sextets = new Uint8Array(input.length);
+  let count = 0;
+  for (let i = 0; i < input.length; i++) {
+    const code = input.charCodeAt(i);
+    const value = code < 256 ? LOOKUP[code] : -1;
+    if (value >= 0) sextets[count++] = value;
+  }
+
+  const out = new Uint8Array(Math.floor((count * 3) / 4));
+  let o = 0;
+  let i = 0;
+  for (; i + 3 < count; i += 4) {
+    const n = (sextets[i] << 18) | (sextets[i + 1] << 12) | (sextets[i + 2] << 6) | sextets[i + 3];
+    out[o++] = (n >> 16) & 0xff;
+    out[o++] = (n >> 8) & 0xff;
+    out[o++] = n & 0xff;
+  }
+  const rest = count - i;
+  if (rest >= 2) {
+    const n = (sextets[i] << 18) | (sextets[i + 1] << 12) | ((rest === 3 ? sextets[i + 2] : 0) << 6);
+    out[o++] = (n >> 16) & 0xff;
+    if (rest === 3) out[o++] = (n >> 8) & 0xff;
+  }
+  return out.subarray(0, o);
+}
+
+/**
+ * Encode bytes as a padded, standard-alphabet base-64 string.
+ *
+ * @internal
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  const chunks: string[] = [];
+  let chunk = '';
+  let i = 0;
+
+  for (; i + 2 < bytes.length; i += 3) {
+    const n = (bytes[i] << 16) | (bytes[i + 1] << 8) | bytes[i + 2];
+    chunk +=
+      ALPHABET[(n >> 18) & 63] +
+      ALPHABET[(n >> 12) & 63] +
+      ALPHABET[(n >> 6) & 63] +
+      ALPHABET[n & 63];
+    // Flush periodically to keep string concatenation cheap.
+    if (chunk.length >= 8192) {
+      chunks.push(chunk);
+      chunk = '';
+    }
+  }
+
+  const rest = bytes.length - i;
+  if (rest === 1) {
+    const n = bytes[i] << 16;
+    chunk += ALPHABET[(n >> 18) & 63] + ALPHABET[(n >> 12) & 63] + '==';
+  } else if (rest === 2) {
+    const n = (bytes[i] << 16) | (bytes[i + 1] << 8);
+    chunk += ALPHABET[(n >> 18) & 63] + ALPHABET[(n >> 12) & 63] + ALPHABET[(n >> 6) & 63] + '=';
+  }
+
+  chunks.push(chunk);
+  return chunks.join('');
+}
@@ -1,13 +1,46 @@
 import { captureRef } from 'react-native-view-shot';
 import type { RefObject } from 'react';
 import type { View } from 'react-native';
+import { UploadQueue } from './uploadQueue';
+import { applyMasks, hasMasks, measureMaskRects } from './privacyMask';
+import { createFrameSignature, isSameFrame } from './frameDiff';
+import type { FrameSignature } from './frameDiff';
+import { TileEncoder } from './tileCodec';
+import { FrameEncryptor } from './frameEncryption';
+import { splitPayload } from './payloadBatcher';
+import { toJsonSafe } from './jsonSafe';
+import { withCurrentScreen } from './screenState';
+import { FrustrationDetector } from './frustrationDetector';
+import { isGlobalPressCaptureEffective, onTextInputFocus } from './globalPressCapture';
+import type { UnbatchedPayload } from './payloadBatcher';
+import type { PayloadSerializer } from './serializers';
+import { createHttpTransport } from './transport';
+import type { Transport, TransportResult } from './transport';
+import { classifyStatus, computeBackoffMs } from './uploadPolicy';
+import type { StorageAdapter } from './storage';
 import type {
+  AliasEvent,
   CapturedFrame,
+  CaptureGap,
+  ConsentState,
+  CustomEvent,
   DeviceInfo,
+  FrameDedupMode,
+  FrameEncoding,
+  FrustrationSignal,
+  GestureEvent,
+  InputEvent,
+  MaskStyle,
   NavigationEvent,
+  PayloadFormat,
+  QueueEvictionPolicy,
   ScrollEvent,
+  SessionMarker,
   TapEvent,
+  TileFrame,
+  UnchangedFrame,
   UploadPayload,
+  UploadResult,
 } from './types';
 
 /**
@@ -33,8 +66,51 @@ export interface CaptureManagerOptions {
   flushIntervalMs: number;
   periodicCaptureMs: number;
   idleTimeoutMs: number;
+  storage: StorageAdapter;
+  maxQueuedUploads: number;
+  maxQueueBytes: number;
+  queueEvictionPolicy: QueueEvictionPolicy;
+  retryBaseDelayMs: number;
+  retryMaxDelayMs: number;
+  onUploadResult?: (result: UploadResult) => void;
+  onFrustrationSignal?: (signal: FrustrationSignal) => void;
+  rageTapCount: number;
+  rageTapWindowMs: number;
+  maskStyle: MaskStyle;
+  consent: ConsentState;
+  frameDedup: FrameDedupMode;
+  frameDiffThreshold: number;
+  frameEncoding: FrameEncoding;
+  tileSize: number;
+  keyframeInterval: number;
+  payloadFormat: PayloadFormat | PayloadSerializer;
+  maxPayloadBytes: number;
+  signRequests: boolean;
+  encryptionPublicKey?: string;
+  /**
+   * Delivers payloads.  Defaults to an HTTP transport built from
+   * `endpointUrl`, `apiKey`, `payloadFormat`, and `signRequests`.
+   */
+  transport?: Transport;
 }
 
+/**
+ * Options of a running {@link CaptureManager} that can be changed at
+ * runtime via {@link CaptureManager.updateOptions} (e.g. from remote
+ * config).
+ *
+ * @internal
+ */
+export type TunableCaptureOptions = Pick<
+  CaptureManagerOptions,
+  | 'maxFrames'
+  | 'throttleMs'
+  | 'imageQuality'
+  | 'flushIntervalMs'
+  | 'periodicCaptureMs'
+  | 'idleTimeoutMs'
+>;
+
 /**
  * Core engine for Expo Session Capture.
  *
@@ -42,13 +118,25 @@ export interface CaptureManagerOptions {
  *
  * 1. **Throttled screenshots** via `react-native-view-shot`, respecting
  *    `throttleMs` and a hard `maxFrames` cap.
- * 2. **Event buffering** — tap, scroll, and navigation events are
+ * 2. **Privacy masking** — regions marked with `<SessionCaptureMask>`
+ *    (or `sessionCaptureMask`) are blacked out in every frame before
+ *    it is buffered.  With `encryptionPublicKey`, frames are also
+ *    encrypted before buffering.
+ * 3. **Frame deduplication** — a frame that matches the previous one
+ *    (`frameDedup`) is replaced by a lightweight "unchanged since"
+ *    marker and does not count against `maxFrames`.  With
+ *    `frameEncoding: 'tiles'`, only the tiles that changed since the
+ *    previous frame are uploaded between periodic keyframes.
+ * 4. **Event buffering** — tap, scroll, and navigation events are
  *    accumulated in memory between flushes.
- * 3. **Periodic flush** — uploads buffered data to
- *    `{endpointUrl}/ingest` every `flushIntervalMs`.
- * 4. **Periodic background capture** — takes a screenshot every
+ * 5. **Periodic flush** — uploads buffered data through the
+ *    transport (by default to `{endpointUrl}/ingest`) every
+ *    `flushIntervalMs`, via a persistent offline queue that retries
+ *    failed uploads with exponential backoff, on the next flush or
+ *    app launch.
+ * 6. **Periodic background capture** — takes a screenshot every
  *    `periodicCaptureMs`, pausing when idle (`idleTimeoutMs`).
- * 5. **Non-blocking** — all capture and upload operations are
+ * 7. **Non-blocking** — all capture and upload operations are
  *    fire-and-forget; errors are silently swallowed so the SDK
  *    **never** crashes the host app.
  *
@@ -61,9 +149,24 @@ export class CaptureManager {
   private frameCount = 0;
   private lastCaptureTs = 0;
   private frames: CapturedFrame[] = [];
+  private tileFrames: TileFrame[] = [];
+  private unchangedFrames: UnchangedFrame[] = [];
+  private lastFrameSignature: FrameSignature | null = null;
+  private lastFrameTs = 0;
   private taps: TapEvent[] = [];
   private scrolls: ScrollEvent[] = [];
   private navigations: NavigationEvent[] = [];
+  private gaps: CaptureGap[] = [];
+  private customEvents: CustomEvent[] = [];
+  private inputs: InputEvent[] = [];
+  private gestures: GestureEvent[] = [];
+  private frustrationSignals: FrustrationSignal[] = [];
+  private sessionEvents: SessionMarker[] = [];
+  private pendingSessionEvents: SessionMarker[] = [];
+  private aliases: AliasEvent[] = [];
+  private pendingAliases: AliasEvent[] = [];
+  private pausedAt: number | null = null;
+  private pauseReason: string | undefined;
   private deviceInfo: DeviceInfo | null = null;
   private isActive = false;
   private isFlushing = false;
@@ -73,8 +176,45 @@ export class CaptureManager {
   private lastInteractionTs = 0;
   private idleTimer: ReturnType<typeof setTimeout> | null = null;
   private isIdle = false;
+  private queue: UploadQueue;
+  private consecutiveFailures = 0;
+  private nextRetryAt = 0;
+  private uploadsDisabled = false;
+  private tileEncoder: TileEncoder;
+  private encryptor: FrameEncryptor | null;
+  private transport: Transport;
+  private frustration: FrustrationDetector;
+  private unsubscribeFocus: (() => void) | null = null;
 
-  constructor(private opts: CaptureManagerOptions) {}
+  constructor(private opts: CaptureManagerOptions) {
+    this.encryptor = opts.encryptionPublicKey
+      ? new FrameEncryptor(opts.encryptionPublicKey)
+      : null;
+    this.transport =
+      opts.transport ??
+      createHttpTransport({
+        endpointUrl: opts.endpointUrl,
+        apiKey: opts.apiKey,
+        payloadFormat: opts.payloadFormat,
+        signRequests: opts.signRequests,
+      });
+    this.frustration = new FrustrationDetector({
+      rageTapCount: opts.rageTapCount,
+      rageTapWindowMs: opts.rageTapWindowMs,
+      onSignal: (signal) => this.registerFrustrationSignal(signal),
+      canDetectDeadTaps: isGlobalPressCaptureEffective,
+    });
+    this.tileEncoder = new TileEncoder({
+      tileSize: opts.tileSize,
+      keyframeInterval: opts.keyframeInterval,
+    });
+    this.queue = new UploadQueue({
+      storage: opts.storage,
+      maxEntries: opts.maxQueuedUploads,
+      maxBytes: opts.maxQueueBytes,
+      evictionPolicy: opts.queueEvictionPolicy,
+    });
+  }
 
   // ── Identity ────────────────────────────────────────────────────────
 
@@ -88,14 +228,159 @@ export class CaptureManager {
     return this.opts.userId;
   }
 
+  // ── Runtime configuration ──────────────────────────────────────────
+
+  /**
+   * Change tunable options while running.  Timers affected by the
+   * change are restarted with the new intervals.
+   */
+  updateOptions(patch: Partial<TunableCaptureOptions>): void {
+    const prev = { ...this.opts };
+    Object.assign(this.opts, patch);
+
+    if (this.isActive && prev.flushIntervalMs !== this.opts.flushIntervalMs) {
+      this.startPeriodicFlush();
+    }
+    if (
+      this.periodicCaptureRef &&
+      this.periodicCaptureTimer !== null &&
+      prev.periodicCaptureMs !== this.opts.periodicCaptureMs
+    ) {
+      this.startPeriodicCapture(this.periodicCaptureRef);
+    }
+    if (prev.idleTimeoutMs !== this.opts.idleTimeoutMs && !this.isIdle) {
+      this.resetIdleTimer();
+    }
+  }
+
+  // ── Session ─────────────────────────────────────────────────────────
+
+  /** Return the current session ID. */
+  getSessionId(): string {
+    return this.opts.sessionId;
+  }
+
+  /**
+   * Continue an existing session (e.g. restored from a previous
+   * launch) without emitting a start marker.
+   */
+  resumeSession(sessionId: string): void {
+    this.opts.sessionId = sessionId;
+  }
+
+  /**
+   * Switch to a new session and emit a `start` marker.
+   *
+   * Data buffered so far still belongs to the previous session, so it
+   * is moved to the upload queue under the old ID first.
+   */
+  startSession(
+    sessionId: string,
+    reason: SessionMarker['reason'],
+    timestamp: number = Date.now(),
+  ): void {
+    if (sessionId !== this.opts.sessionId) {
+      const previous = this.takeBufferedPayloads();
+      this.queue.enqueue(previous).catch(() => {});
+    }
+    this.opts.sessionId = sessionId;
+    // The first frame of a session is never a duplicate or a delta.
+    this.lastFrameSignature = null;
+    this.tileEncoder.reset();
+    this.recordSessionMarker({ type: 'start', sessionId, timestamp, reason });
+  }
+
+  /** Emit an `end` marker for the current session. */
+  endSession(reason: SessionMarker['reason'], timestamp: number = Date.now()): void {
+    this.recordSessionMarker({
+      type: 'end',
+      sessionId: this.opts.sessionId,
+      timestamp,
+      reason,
+    });
+  }
+
+  /**
+   * Buffer a session marker, or hold it until `start()` if the manager
+   * is not capturing yet (e.g. consent is still loading at launch).
+   */
+  private recordSessionMarker(marker: SessionMarker): void {
+    if (this.isActive && this.opts.consent === 'granted') {
+      this.sessionEvents.push(marker);
+    } else {
+      // Bounded – a user who is never sampled must not accumulate markers.
+      this.pendingSessionEvents = [...this.pendingSessionEvents, marker].slice(-10);
+    }
+  }
+
+  // ── Consent ─────────────────────────────────────────────────────────
+
+  /**
+   * Update the consent state.
+   *
+   * Only `'granted'` allows capturing, buffering, and uploading.
+   * `'denied'` additionally purges all buffered events and frames and
+   * every payload in the offline queue.
+   */
+  setConsent(consent: ConsentState): void {
+    this.opts.consent = consent;
+    if (consent !== 'denied') return;
+
+    this.frames = [];
+    this.tileFrames = [];
+    this.unchangedFrames = [];
+    this.lastFrameSignature = null;
+    this.tileEncoder.reset();
+    this.encryptor?.reset();
+    this.taps = [];
+    this.scrolls = [];
+    this.navigations = [];
+    this.gaps = [];
+    this.customEvents = [];
+    this.inputs = [];
+    this.gestures = [];
+    this.frustrationSignals = [];
+    this.frustration.reset();
+    this.sessionEvents = [];
+    this.pendingSessionEvents = [];
+    this.aliases = [];
+    this.pendingAliases = [];
+    this.queue.clear().catch(() => {});
+  }
+
+  /** Return the current consent state. */
+  getConsent(): ConsentState {
+    return this.opts.consent;
+  }
+
+  /** Whether capturing is currently allowed (active, consented, not paused). */
+  private get canCapture(): boolean {
+    return this.isActive && this.opts.consent === 'granted' && !this.isPaused;
+  }
+
   // ── Lifecycle ───────────────────────────────────────────────────────
 
-  /** Activate capturing and start the periodic flush timer. */
+  /**
+   * Activate capturing and start the periodic flush timer.
+   *
+   * Also retries any payloads left in the offline queue by a previous
+   * launch, and buffers session markers and aliases recorded while
+   * inactive.  A `pause()` made while inactive stays in effect; its
+   * gap starts now.
+   */
   start(): void {
+    if (this.pausedAt !== null) this.pausedAt = Date.now();
     this.isActive = true;
     this.lastInteractionTs = Date.now();
     this.isIdle = false;
+    this.sessionEvents.push(...this.pendingSessionEvents);
+    this.pendingSessionEvents = [];
+    this.aliases.push(...this.pendingAliases);
+    this.pendingAliases = [];
+    this.unsubscribeFocus?.();
+    this.unsubscribeFocus = onTextInputFocus((timestamp) => this.frustration.focus(timestamp));
     this.startPeriodicFlush();
+    this.flush().catch(() => {});
   }
 
   /**
@@ -129,13 +414,24 @@ export class CaptureManager {
   /**
    * Deactivate capturing, stop all timers, and flush remaining
    * buffered data to the backend.
+   *
+   * An open `pause()` gap is recorded up to the time of stopping, but
+   * the pause itself stays in effect: recording does not resume on
+   * the next `start()` until `resume()` is called.
    */
   stop(): void {
+    if (this.isActive && this.pausedAt !== null) {
+      this.recordGap();
+      this.pausedAt = Date.now();
+    }
     this.isActive = false;
     this.stopPeriodicFlush();
     this.stopPeriodicCapture();
     this.clearIdleTimer();
-    this.flush();
+    this.unsubscribeFocus?.();
+    this.unsubscribeFocus = null;
+    this.frustration.reset();
+    this.flush().catch(() => {});
   }
 
   /** Whether the manager is currently capturing. */
@@ -146,18 +442,63 @@ export class CaptureManager {
   /**
    * Number of screenshot frames captured so far in this session.
    *
-   * Stops incrementing once `maxFrames` is reached.
+   * Stops incrementing once `maxFrames` is reached.  Frames skipped as
+   * duplicates are not counted.
    */
   get capturedFrames(): number {
     return this.frameCount;
   }
 
+  /** Whether recording is currently paused via `pause()`. */
+  get isPaused(): boolean {
+    return this.pausedAt !== null;
+  }
+
+  // ── Pause / resume ─────────────────────────────────────────────────
+
+  /**
+   * Pause recording.  Screenshots and events are ignored until
+   * `resume()` is called; the paused period is uploaded as a
+   * {@link CaptureGap}.  No-op if already paused.
+   */
+  pause(reason?: string): void {
+    if (this.pausedAt !== null) return;
+    this.pausedAt = Date.now();
+    this.pauseReason = reason;
+  }
+
+  /** Resume recording after `pause()`.  No-op if not paused. */
+  resume(): void {
+    if (this.pausedAt === null) return;
+    this.closeGap();
+    if (this.isActive) this.notifyInteraction();
+  }
+
+  /** Record the current pause as a gap and clear the paused state. */
+  private closeGap(): void {
+    if (this.pausedAt === null) return;
+    // Nothing is recorded while inactive, so that time is no gap.
+    if (this.isActive) this.recordGap();
+    this.pausedAt = null;
+    this.pauseReason = undefined;
+  }
+
+  /** Record the pause so far, up to now, as a gap. */
+  private recordGap(): void {
+    if (this.pausedAt === null) return;
+    this.gaps.push({
+      start: this.pausedAt,
+      end: Date.now(),
+      reason: this.pauseReason,
+    });
+  }
+
   // ── Periodic flush ─────────────────────────────────────────────────
 
   private startPeriodicFlush(): void {
     this.stopPeriodicFlush();
     this.flushTimer = setInterval(() => {
-      this.flush();
+      this.flush().catch(() => {});
     }, this.opts.flushIntervalMs);
   }
 
@@ -183,8 +524,10 @@ export class CaptureManager {
    * dimensions (if available).
    */
   registerTap(tap: TapEvent): void {
-    if (!this.isActive) return;
+    if (!this.canCapture) return;
     this.notifyInteraction();
+    this.frustration.press(tap);
+    tap = withCurrentScreen(tap);
 
     const hasNormalizedCoordinates =
       typeof tap.normalizedX === 'number' && typeof tap.normalizedY === 'number';
@@ -203,18 +546,96 @@ export class CaptureManager {
 
   /** Buffer a scroll event with the current vertical offset. */
   registerScroll(scroll: ScrollEvent): void {
-    if (!this.isActive) return;
+    if (!this.canCapture) return;
     this.notifyInteraction();
-    this.scrolls.push(scroll);
+    this.scrolls.push(withCurrentScreen(scroll));
+  }
+
+  /**
+   * Buffer an alias event linking the anonymous ID to an identified
+   * user.  Recorded even while paused — it carries no screen content.
+   *
+   * Held until `start()` if the manager is not capturing yet — apps
+   * with a restored login identify long before consent, the session,
+   * and sampling have loaded.
+   */
+  registerAlias(alias: AliasEvent): void {
+    if (this.isActive && this.opts.consent === 'granted') {
+      this.aliases.push(alias);
+    } else {
+      // Bounded – a user who is never sampled must not accumulate aliases.
+      this.pendingAliases = [...this.pendingAliases, alias].slice(-10);
+    }
   }
 
   /** Buffer a navigation event (screen transition). */
   registerNavigation(nav: NavigationEvent): void {
-    if (!this.isActive) return;
+    if (!this.canCapture) return;
     this.notifyInteraction();
     this.navigations.push(nav);
   }
 
+  /** Buffer a business event recorded with `track()`. */
+  registerCustomEvent(event: CustomEvent): void {
+    if (!this.canCapture) return;
+    this.customEvents.push(withCurrentScreen(event));
+  }
+
+  /** Buffer a text field interaction (focus, blur, submit, validation error). */
+  registerInput(input: InputEvent): void {
+    if (!this.canCapture) return;
+    this.notifyInteraction();
+    this.inputs.push(withCurrentScreen(input));
+  }
+
+  /**
+   * Buffer a gesture observed on the root view.  Coordinates are
+   * normalised like tap coordinates.
+   */
+  registerGesture(gesture: GestureEvent): void {
+    if (!this.canCapture) return;
+    this.notifyInteraction();
+    if (gesture.type === 'tap' || gesture.type === 'double-tap') {
+      this.frustration.tap(gesture);
+    }
+
+    this.gestures.push(
+      withCurrentScreen(
+        this.deviceInfo
+          ? {
+              ...gesture,
+              normalizedX: gesture.x / this.deviceInfo.deviceWidth,
+              normalizedY: gesture.y / this.deviceInfo.deviceHeight,
+            }
+          : gesture,
+      ),
+    );
+  }
+
+  /**
+   * Buffer a rage tap or dead tap and report it through
+   * `onFrustrationSignal`.
+   */
+  private registerFrustrationSignal(signal: FrustrationSignal): void {
+    if (!this.canCapture) return;
+
+    const flagged = withCurrentScreen(
+      this.deviceInfo
+        ? {
+            ...signal,
+            normalizedX: signal.x / this.deviceInfo.deviceWidth,
+            normalizedY: signal.y / this.deviceInfo.deviceHeight,
+          }
+        : signal,
+    );
+    this.frustrationSignals.push(flagged);
+    try {
+      this.opts.onFrustrationSignal?.(flagged);
+    } catch {
+      // Consumer callback errors must never break capturing.
+    }
+  }
+
   // ── Idle detection ─────────────────────────────────────────────────
 
   /**
@@ -257,13 +678,16 @@ export class CaptureManager {
    * Take a screenshot of the root `<View>` ref.
    *
    * Respects:
-   * - **Active state** — no-op if capture is not running.
+   * - **Active state** — no-op if capture is not running or paused.
+   * - **Privacy masks** — masked regions are hidden before buffering.
+   * - **Deduplication** — a frame identical to the previous one is
+   *   recorded as unchanged instead of buffered.
    * - **Hard frame cap** — stops and flushes if `maxFrames` reached.
    * - **Throttle** — skips if called within `throttleMs` of the last
    *   capture (use `captureImmediate()` to bypass).
    */
   async capture(ref: RefObject<View | null>): Promise<void> {
-    if (!this.isActive) return;
+    if (!this.canCapture) return;
     if (this.frameCount >= this.opts.maxFrames) {
       // Cap reached – flush and stop.
       this.stop();
@@ -280,97 +704,367 @@ export class CaptureManager {
    * Take a screenshot immediately, **bypassing the throttle**.
    *
    * Used for navigation events where capturing both the departure and
-   * arrival screens is important.  Still respects active state and
-   * the hard frame cap.
+   * arrival screens is important.  Still respects active / paused
+   * state and the hard frame cap.  Labelled frames are never skipped
+   * as duplicates.
+   *
+   * @param label  Optional label stored on the frame (`captureNow()`).
    */
-  async captureImmediate(ref: RefObject<View | null>): Promise<void> {
-    if (!this.isActive) return;
+  async captureImmediate(ref: RefObject<View | null>, label?: string): Promise<void> {
+    if (!this.canCapture) return;
     if (this.frameCount >= this.opts.maxFrames) {
       this.stop();
       return;
     }
 
-    return this._doCapture(ref, Date.now());
+    return this._doCapture(ref, Date.now(), label);
   }
 
-  private async _doCapture(ref: RefObject<View | null>, now: number): Promise<void> {
+  private async _doCapture(
+    ref: RefObject<View | null>,
+    now: number,
+    label?: string,
+  ): Promise<void> {
     this.lastCaptureTs = now;
     this.frameCount++;
+    // Read before the first await: a navigation may update it meanwhile.
+    const screen = withCurrentScreen({});
 
     try {
-      const base64 = await captureRef(ref, {
-        format: 'jpg',
-        quality: this.opts.imageQuality,
-        result: 'base64',
-        width: this.opts.imageWidth,
-        height: this.opts.imageHeight,
-      });
+      // Measure masks alongside the screenshot so both reflect the same layout.
+      const [base64, maskRects] = await Promise.all([
+        captureRef(ref, {
+          format: 'jpg',
+          quality: this.opts.imageQuality,
+          result: 'base64',
+          width: this.opts.imageWidth,
+          height: this.opts.imageHeight,
+        }),
+        hasMasks() ? measureMaskRects(ref) : Promise.resolve([]),
+      ]);
 
-      this.frames.push({
-        image: base64,
-        timestamp: now,
-      });
+      // If a mask cannot be measured or applied, the unmasked frame is
+      // discarded below.
+      const image = applyMasks(
+        base64,
+        maskRects,
+        this.opts.maskStyle,
+        this.opts.imageQuality,
+      );
+
+      const signature = this.frameSignature(image);
+      if (
+        label === undefined &&
+        signature &&
+        this.lastFrameSignature &&
+        isSameFrame(signature, this.lastFrameSignature, this.opts.frameDiffThreshold)
+      ) {
+        this.unchangedFrames.push({ timestamp: now, since: this.lastFrameTs });
+        this.frameCount--; // duplicates don't count against maxFrames
+        return;
+      }
+      const tileFrame =
+        this.opts.frameEncoding === 'tiles' ? this.encodeTiles(image, now, label) : null;
+
+      // Encrypted before buffering; if that throws, the frame is dropped.
+      if (tileFrame) {
+        this.tileFrames.push({ ...this.sealTileFrame(tileFrame), ...screen });
+      } else {
+        this.frames.push({
+          image: this.sealImage(image),
+          timestamp: now,
+          ...(label !== undefined && { label }),
+          ...screen,
+        });
+      }
+      this.lastFrameSignature = signature;
+      this.lastFrameTs = now;
     } catch {
       // Screenshot can fail silently – never crash the host app.
       this.frameCount--; // don't penalise on failure
     }
   }
 
+  /** Encrypt an image if `encryptionPublicKey` is set.  May throw. */
+  private sealImage(image: string): string {
+    return this.encryptor ? this.encryptor.seal(image) : image;
+  }
+
+  /**
+   * Encrypt every image of a tile frame.  On failure the encoder is
+   * reset, because the next delta would refer to a dropped frame.
+   */
+  private sealTileFrame(frame: TileFrame): TileFrame {
+    if (!this.encryptor) return frame;
+    try {
+      return {
+        ...frame,
+        ...(frame.image !== undefined && { image: this.sealImage(frame.image) }),
+        ...(frame.tiles && {
+          tiles: frame.tiles.map((tile) => ({ ...tile, image: this.sealImage(tile.image) })),
+        }),
+      };
+    } catch (err) {
+      this.tileEncoder.reset();
+      throw err;
+    }
+  }
+
+  /**
+   * Fingerprint a frame for deduplication.  Returns `null` (keep the
+   * frame) when dedup is off or the frame cannot be decoded.
+   */
+  private frameSignature(image: string): FrameSignature | null {
+    try {
+      return createFrameSignature(image, this.opts.frameDedup);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Encode a frame as a keyframe or tile delta.  The first frame of
+   * every flush is a keyframe, so batches decode independently.
+   *
+   * Returns `null` if the frame cannot be decoded — it is then
+   * uploaded as a full frame and the next one starts a new keyframe.
+   */
+  private encodeTiles(image: string, now: number, label?: string): TileFrame | null {
+    try {
+      return this.tileEncoder.encode(
+        image,
+        now,
+        this.opts.imageQuality,
+        this.tileFrames.length === 0,
+        label,
+      );
+    } catch {
+      this.tileEncoder.reset();
+      return null;
+    }
+  }
+
   // ── Upload ──────────────────────────────────────────────────────────
 
   /**
-   * Batch-upload all buffered data to `{endpointUrl}/ingest`.
+   * Move all buffered data into the offline queue and upload every
+   * queued payload through the transport (by default to
+   * `{endpointUrl}/ingest`), oldest first.
    *
    * The local buffer is cleared immediately so new captures during
-   * upload are not lost.  If the upload fails, the frames are
-   * discarded (non-blocking / fire-and-forget).
+   * upload are not lost.  Buffers larger than `maxPayloadBytes` are
+   * queued as several time-ordered chunks of one batch.  Each payload
+   * is persisted before the request is made and removed from the
+   * queue only after a `2xx` response.  Responses are classified (see
+   * `classifyStatus`):
+   *
+   * - **Retryable** (network error, `408`, `425`, `429`, `5xx`) — the
+   *   payload stays queued and uploads pause for an exponential,
+   *   jittered backoff delay (or `Retry-After`, if longer).
+   * - **Auth** (`401`, `403`) — uploads stop for the rest of this
+   *   launch; queued data is kept for a later launch.
+   * - **Too large** (`413`) — the payload is split in half and the
+   *   chunks are queued in its place; a payload holding a single
+   *   frame or event cannot be split and is dropped.
+   * - **Fatal** (other `4xx`) — the payload is dropped.
+   *
+   * Every attempt is reported through `onUploadResult`.
    */
   async flush(): Promise<void> {
+    await this.queue.enqueue(this.takeBufferedPayloads());
+
+    if (this.isFlushing) return;
+    this.isFlushing = true;
+
+    try {
+      await this.drainQueue();
+    } finally {
+      this.isFlushing = false;
+    }
+  }
+
+  /**
+   * Build {@link UploadPayload}s from the in-memory buffers and clear
+   * them.  Returns one payload, or several chunks if the data exceeds
+   * `maxPayloadBytes` — none if there is nothing to upload.
+   */
+  private takeBufferedPayloads(): UploadPayload[] {
+    if (this.opts.consent !== 'granted') return [];
     if (
       this.frames.length === 0 &&
+      this.tileFrames.length === 0 &&
+      this.unchangedFrames.length === 0 &&
       this.taps.length === 0 &&
       this.scrolls.length === 0 &&
-      this.navigations.length === 0
+      this.navigations.length === 0 &&
+      this.gaps.length === 0 &&
+      this.customEvents.length === 0 &&
+      this.inputs.length === 0 &&
+      this.gestures.length === 0 &&
+      this.frustrationSignals.length === 0 &&
+      this.sessionEvents.length === 0 &&
+      this.aliases.length === 0
     ) {
-      return;
+      return [];
     }
-    if (this.isFlushing) return;
 
-    this.isFlushing = true;
-
-    const payload: UploadPayload = {
+    const encryption = this.encryptor?.takeHeader();
+    const payload: UnbatchedPayload = {
       sessionId: this.opts.sessionId,
       userId: this.opts.userId,
       device: this.opts.device,
       appVersion: this.opts.appVersion,
       deviceWidth: this.deviceInfo?.deviceWidth,
       deviceHeight: this.deviceInfo?.deviceHeight,
-      frames: [...this.frames],
-      taps: [...this.taps],
-      scrolls: [...this.scrolls],
-      navigations: [...this.navigations],
+      ...(encryption && { encryption }),
+      frames: this.frames,
+      tileFrames: this.tileFrames,
+      unchangedFrames: this.unchangedFrames,
+      taps: this.taps,
+      scrolls: this.scrolls,
+      navigations: this.navigations,
+      gaps: this.gaps,
+      customEvents: this.customEvents,
+      inputs: this.inputs,
+      gestures: this.gestures,
+      frustrationSignals: this.frustrationSignals,
+      consent: this.opts.consent,
+      sessionEvents: this.sessionEvents,
+      aliases: this.aliases,
     };
 
-    // Clear local buffer immediately so new captures aren't lost during upload.
     this.frames = [];
+    this.tileFrames = [];
+    this.unchangedFrames = [];
     this.taps = [];
     this.scrolls = [];
     this.navigations = [];
+    this.gaps = [];
+    this.customEvents = [];
+    this.inputs = [];
+    this.gestures = [];
+    this.frustrationSignals = [];
+    this.sessionEvents = [];
+    this.aliases = [];
 
     try {
-      const url = this.opts.endpointUrl.replace(/\/+$/, '') + '/ingest';
-      await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-api-key': this.opts.apiKey,
-        },
-        body: JSON.stringify(payload),
-      });
+      return splitPayload(payload, this.opts.maxPayloadBytes);
     } catch {
-      // Upload failure is non-fatal – frames are lost, but the app stays stable.
-    } finally {
-      this.isFlushing = false;
+      // A value JSON cannot represent reached an event – drop just that
+      // value instead of the whole buffer.
+      try {
+        const safe = toJsonSafe(payload);
+        return safe ? splitPayload(safe, this.opts.maxPayloadBytes) : [];
+      } catch {
+        return [];
+      }
+    }
+  }
+
+  /**
+   * Upload queued payloads in order until the queue is empty or an
+   * upload has to be retried later.
+   *
+   * Does nothing without consent, while a backoff delay is pending, or
+   * after an auth failure disabled uploads.
+   */
+  private async drainQueue(): Promise<void> {
+    while (
+      this.opts.consent === 'granted' &&
+      !this.uploadsDisabled &&
+      Date.now() >= this.nextRetryAt
+    ) {
+      const next = await this.queue.peek();
+      if (!next) return;
+
+      const attempt = next.entry.attempts + 1;
+      const { status, retryAfter, error } = await this.upload(next.payload);
+      const responseClass = classifyStatus(status);
+      const result: UploadResult = {
+        status: 'success',
+        httpStatus: status,
+        error,
+        sessionId: next.payload.sessionId,
+        attempt,
+        // Payloads queued by earlier SDK versions have no `tileFrames`.
+        frameCount: next.payload.frames.length + (next.payload.tileFrames?.length ?? 0),
+        timestamp: Date.now(),
+      };
+
+      if (responseClass === 'success') {
+        this.consecutiveFailures = 0;
+        await this.queue.remove(next.entry.id);
+      } else if (responseClass === 'too-large') {
+        const chunks = this.splitRejected(next.payload);
+        if (chunks.length > 1) {
+          result.status = 'split';
+          await this.queue.replace(next.entry.id, chunks);
+        } else {
+          result.status = 'dropped';
+          await this.queue.remove(next.entry.id);
+        }
+      } else if (responseClass === 'fatal') {
+        // The backend will never accept this payload – drop it and move on.
+        result.status = 'dropped';
+        await this.queue.remove(next.entry.id);
+      } else if (responseClass === 'auth') {
+        // Bad or revoked API key – keep the data, stop hammering the backend.
+        result.status = 'auth-failed';
+        this.uploadsDisabled = true;
+        await this.queue.markAttempt(next.entry.id);
+      } else {
+        this.consecutiveFailures++;
+        const backoff = computeBackoffMs(
+          this.consecutiveFailures,
+          this.opts.retryBaseDelayMs,
+          this.opts.retryMaxDelayMs,
+        );
+        // `Retry-After` may lengthen the wait, but never past the cap.
+        const delay = Math.min(
+          Math.max(backoff, retryAfter ?? 0),
+          this.opts.retryMaxDelayMs,
+        );
+        this.nextRetryAt = Date.now() + delay;
+        result.status = 'retry';
+        result.retryInMs = delay;
+        await this.queue.markAttempt(next.entry.id);
+      }
+
+      this.reportUploadResult(result);
+    }
+  }
+
+  /**
+   * Split a payload the backend rejected as too large into halves.
+   *
+   * The chunks form a new batch; their items stay in time order.
+   * Returns a single payload if it cannot be split any further.
+   */
+  private splitRejected(payload: UploadPayload): UploadPayload[] {
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { batchId, batchSequence, batchCount, ...unbatched } = payload;
+    return splitPayload(unbatched, Math.floor(JSON.stringify(unbatched).length / 2));
+  }
+
+  /**
+   * Send a single payload through the transport.
+   *
+   * Never throws — a failure is reported as an `undefined` status with
+   * the error message.
+   */
+  private async upload(payload: UploadPayload): Promise<TransportResult> {
+    try {
+      return await this.transport.send(payload);
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : String(err) };
+    }
+  }
+
+  private reportUploadResult(result: UploadResult): void {
+    try {
+      this.opts.onUploadResult?.(result);
+    } catch {
+      // Consumer callback errors must never break the upload loop.
     }
   }
 }
@@ -0,0 +1,45 @@
+import { STORAGE_KEY_PREFIX } from './storage';
+import type { StorageAdapter } from './storage';
+import type { ConsentState } from './types';
+
+// ── Persistence ───────────────────────────────────────────────────────
+
+const CONSENT_KEY = `${STORAGE_KEY_PREFIX}consent`;
+
+const VALID_STATES: ReadonlySet<string> = new Set<ConsentState>([
+  'granted',
+  'denied',
+  'pending',
+]);
+
+/**
+ * Read the consent decision persisted by a previous launch.
+ *
+ * Returns `null` if no decision was stored or storage is unreadable.
+ *
+ * @internal
+ */
+export async function loadConsent(storage: StorageAdapter): Promise<ConsentState | null> {
+  try {
+    const raw = await storage.getItem(CONSENT_KEY);
+    return raw && VALID_STATES.has(raw) ? (raw as ConsentState) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Persist the user's consent decision so it survives app restarts.
+ *
+ * Storage errors are swallowed — the decision still applies for the
+ * current launch.
+ *
+ * @internal
+ */
+export async function saveConsent(storage: StorageAdapter, state: ConsentState): Promise<void> {
+  try {
+    await storage.setItem(CONSENT_KEY, state);
+  } catch {
+    // Non-fatal – the user may be asked again on the next launch.
+  }
+}
@@ -0,0 +1,195 @@
+import React from 'react';
+
+// ── Types ─────────────────────────────────────────────────────────────
+
+/**
+ * A function that may rewrite the props of an element before it is
+ * created.
+ *
+ * Must return the **same object** when it has nothing to change, so
+ * the interceptor can skip copying props for the vast majority of
+ * elements.
+ *
+ * @internal
+ */
+export type ElementTransform = (
+  type: unknown,
+  props: Record<string, unknown>,
+) => Record<string, unknown>;
+
+/**
+ * A function that creates elements and is patched by the interceptor:
+ *
+ * - `createElement` — `React.createElement`, used by the classic JSX
+ *   runtime and by hand-written `React.createElement` calls.
+ * - `jsx` / `jsxs` — `react/jsx-runtime`, used by the automatic JSX
+ *   runtime (the default in Expo and React Native projects).
+ * - `jsxDEV` — `react/jsx-dev-runtime`, used by the automatic runtime
+ *   in development builds.
+ */
+export type ElementFactory = 'createElement' | 'jsx' | 'jsxs' | 'jsxDEV';
+
+/** Every {@link ElementFactory}, in the order they are patched. */
+export const ELEMENT_FACTORIES: readonly ElementFactory[] = ['createElement', 'jsx', 'jsxs', 'jsxDEV'];
+
+// ── Registry ──────────────────────────────────────────────────────────
+
+const transforms: ElementTransform[] = [];
+let installed = false;
+
+/**
+ * Register a props transform that runs for every element created in
+ * the app.
+ *
+ * The first registration monkey-patches every {@link ElementFactory}
+ * once, so elements are seen whether the app is compiled with the
+ * classic or the automatic JSX runtime.  Every SDK feature that needs
+ * to see elements (global press capture, privacy masks, …) shares
+ * those patches.  Transforms run in registration order.
+ *
+ * @returns A function that removes the transform again.
+ *
+ * @internal
+ */
+export function addElementTransform(transform: ElementTransform): () => void {
+  transforms.push(transform);
+  installPatch();
+
+  return () => {
+    const index = transforms.indexOf(transform);
+    if (index !== -1) transforms.splice(index, 1);
+  };
+}
+
+/** Apply all registered transforms to `props`. */
+function applyTransforms(
+  type: unknown,
+  props: Record<string, unknown> | null,
+): Record<string, unknown> | null {
+  if (!props) return props;
+
+  let next = props;
+  for (const transform of transforms) {
+    try {
+      next = transform(type, next);
+    } catch {
+      // A failing transform must never break rendering.
+    }
+  }
+  return next;
+}
+
+/**
+ * Display name of an element type, as React DevTools would show it.
+ *
+ * Handles host components (strings), function and class components,
+ * and `forwardRef` / `memo` wrappers.  Returns `undefined` for
+ * anonymous components.
+ *
+ * @internal
+ */
+export function getComponentName(type: unknown): string | undefined {
+  if (typeof type === 'string') return type;
+  if (!type || (typeof type !== 'function' && typeof type !== 'object')) return undefined;
+
+  const component = type as {
+    displayName?: unknown;
+    name?: unknown;
+    render?: unknown;
+    type?: unknown;
+  };
+  if (typeof component.displayName === 'string' && component.displayName) {
+    return component.displayName;
+  }
+  if (typeof type === 'function') {
+    return typeof component.name === 'string' && component.name ? component.name : undefined;
+  }
+  // forwardRef → render function, memo → wrapped type.
+  return getComponentName(component.render ?? component.type);
+}
+
+/** Symbol marking a patched factory, so it is never wrapped twice. */
+const PATCHED_FACTORY = Symbol('patched-factory');
+
+/**
+ * The module object exporting `factory`, or `undefined` when it is not
+ * available (e.g. React versions without the automatic runtime).
+ *
+ * App code compiled with the automatic runtime reads `jsx` off this
+ * same object on every call, so patching its property reaches the app.
+ */
+function getFactoryModule(factory: ElementFactory): Record<string, unknown> | undefined {
+  try {
+    switch (factory) {
+      case 'createElement':
+        return React as unknown as Record<string, unknown>;
+      case 'jsx':
+      case 'jsxs':
+        // eslint-disable-next-line @typescript-eslint/no-var-requires
+        return require('react/jsx-runtime');
+      case 'jsxDEV':
+        // eslint-disable-next-line @typescript-eslint/no-var-requires
+        return require('react/jsx-dev-runtime');
+    }
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Create an element through `factory` exactly as app code would, i.e.
+ * through the current (possibly patched) export.  Returns `undefined`
+ * when the factory is not available.
+ *
+ * Used by the global capture self-test.
+ *
+ * @internal
+ */
+export function createElementVia(
+  factory: ElementFactory,
+  type: unknown,
+  props: Record<string, unknown>,
+): { props?: Record<string, unknown> } | undefined {
+  const create = getFactoryModule(factory)?.[factory];
+  if (typeof create !== 'function') return undefined;
+  try {
+    return create(type, props);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Replace `factory` with a version that runs the transforms on its
+ * props.  All factories take `(type, props, …)`, so one wrapper fits
+ * both runtimes.
+ */
+function patchFactory(factory: ElementFactory): void {
+  const target = getFactoryModule(factory);
+  const original = target?.[factory];
+  if (!target || typeof original !== 'function' || (original as any)[PATCHED_FACTORY]) return;
+
+  const patched = function patchedElementFactory(
+    this: unknown,
+    type: unknown,
+    props: Record<string, unknown> | null,
+    ...rest: unknown[]
+  ) {
+    return original.apply(this, [type, applyTransforms(type, props), ...rest]);
+  };
+  (patched as any)[PATCHED_FACTORY] = true;
+
+  try {
+    target[factory] = patched;
+  } catch {
+    // Frozen module namespace (native ES modules) – the self-test
+    // reports this factory as not intercepted.
+  }
+}
+
+function installPatch(): void {
+  if (installed) return;
+  installed = true;
+
+  for (const factory of ELEMENT_FACTORIES) patchFactory(factory);
+}
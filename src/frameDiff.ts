@@ -0,0 +1,105 @@
+import { hashString } from './hash';
+import { decodeJpeg } from './imageCodec';
+import type { FrameDedupMode } from './types';
+
+// ── Types ─────────────────────────────────────────────────────────────
+
+/**
+ * A compact fingerprint of a captured frame, compared against the
+ * previous frame's fingerprint to detect duplicates.
+ *
+ * @internal
+ */
+export type FrameSignature =
+  | { kind: 'exact'; hash: number; length: number }
+  | { kind: 'perceptual'; cells: Uint8Array };
+
+// ── Constants ─────────────────────────────────────────────────────────
+
+/** The perceptual thumbnail is `GRID × GRID` cells of average luminance. */
+const GRID = 32;
+
+/**
+ * Luminance difference (0 – 255) below which a cell counts as
+ * unchanged.  Absorbs JPEG noise between otherwise identical frames.
+ */
+const CELL_TOLERANCE = 6;
+
+// ── Signatures ────────────────────────────────────────────────────────
+
+/**
+ * Fingerprint a base-64 JPEG.
+ *
+ * - `'exact'`      — hash of the encoded bytes.  Cheap; only matches
+ *   byte-identical frames.
+ * - `'perceptual'` — decodes the frame and averages its luminance over
+ *   a 32 × 32 grid, so frames that differ only by encoder noise or a
+ *   blinking caret still match.  Costs a JPEG decode per frame.
+ *
+ * Returns `null` for `'off'`.  May throw if the image cannot be
+ * decoded.
+ *
+ * @internal
+ */
+export function createFrameSignature(
+  base64: string,
+  mode: FrameDedupMode,
+): FrameSignature | null {
+  if (mode === 'exact') {
+    return { kind: 'exact', hash: hashString(base64), length: base64.length };
+  }
+  if (mode === 'perceptual') {
+    return { kind: 'perceptual', cells: luminanceGrid(base64) };
+  }
+  return null;
+}
+
+/**
+ * Whether two signatures describe the same screen.
+ *
+ * @param threshold  For perceptual signatures, the fraction of grid
+ *                   cells (0 – 1) allowed to differ.
+ *
+ * @internal
+ */
+export function isSameFrame(
+  a: FrameSignature,
+  b: FrameSignature,
+  threshold: number,
+): boolean {
+  if (a.kind === 'exact' && b.kind === 'exact') {
+    return a.hash === b.hash && a.length === b.length;
+  }
+  if (a.kind === 'perceptual' && b.kind === 'perceptual') {
+    let changed = 0;
+    for (let i = 0; i < a.cells.length; i++) {
+      if (Math.abs(a.cells[i] - b.cells[i]) > CELL_TOLERANCE) changed++;
+    }
+    return changed / a.cells.length <= threshold;
+  }
+  return false;
+}
+
+/** Average luminance of each cell of a `GRID × GRID` grid over the image. */
+function luminanceGrid(base64: string): Uint8Array {
+  const { width, height, data } = decodeJpeg(base64);
+  const sums = new Float64Array(GRID * GRID);
+  const counts = new Uint32Array(GRID * GRID);
+
+  for (let y = 0; y < height; y++) {
+    const row = Math.floor((y * GRID) / height) * GRID;
+    for (let x = 0; x < width; x++) {
+      const cell = row + Math.floor((x * GRID) / width);
+      const i = (y * width + x) * 4;
+      // Rec. 601 luma.
+      sums[cell] += 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+      counts[cell]++;
+    }
+  }
+
+  const cells = new Uint8Array(GRID * GRID);
+  for (let c = 0; c < cells.length; c++) {
+    cells[c] = counts[c] > 0 ? Math.round(sums[c] / counts[c]) : 0;
+  }
+  return cells;
+}
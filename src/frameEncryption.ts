@@ -0,0 +1,186 @@
+import nacl from 'tweetnacl';
+import { base64ToBytes, bytesToBase64 } from './base64';
+import { sha256, toHex } from './hmac';
+import { secureRandomBytes } from './random';
+import type { PayloadEncryption, UploadPayload } from './types';
+
+// ── Constants ─────────────────────────────────────────────────────────
+
+const ALGORITHM = 'x25519-xsalsa20-poly1305';
+
+// ── Encryption ────────────────────────────────────────────────────────
+
+/**
+ * Encrypts frame images for the backend's public key.
+ *
+ * Each batch (the data of one flush) gets a fresh random 32-byte key.
+ * Images are sealed with it using `secretbox` (XSalsa20-Poly1305), and
+ * the key itself is wrapped for the backend's X25519 public key with
+ * `box` from a throwaway key pair.  Only the holder of the matching
+ * secret key can unwrap it — proxies, logging middleware, and the
+ * ingest tier only ever see ciphertext.
+ *
+ * All randomness comes from {@link secureRandomBytes}; if no secure
+ * source exists, sealing throws and the caller must drop the frame.
+ *
+ * @internal
+ */
+export class FrameEncryptor {
+  private publicKey: Uint8Array | null = null;
+  private batch: { key: Uint8Array; header: PayloadEncryption } | null = null;
+
+  constructor(private publicKeyBase64: string) {}
+
+  /**
+   * Encrypt a base-64 JPEG.  Returns base-64 of the 24-byte nonce
+   * followed by the ciphertext.
+   *
+   * Throws if the public key is invalid or no secure random source is
+   * available.
+   */
+  seal(image: string): string {
+    const { key } = this.currentBatch();
+    const nonce = secureRandomBytes(nacl.secretbox.nonceLength);
+    const sealed = nacl.secretbox(base64ToBytes(image), nonce, key);
+    return bytesToBase64(concat(nonce, sealed));
+  }
+
+  /**
+   * Return the header describing the current batch's key (if any image
+   * was sealed) and start a new batch.
+   */
+  takeHeader(): PayloadEncryption | undefined {
+    const header = this.batch?.header;
+    this.batch = null;
+    return header;
+  }
+
+  /** Discard the current batch key. */
+  reset(): void {
+    this.batch = null;
+  }
+
+  private currentBatch(): { key: Uint8Array; header: PayloadEncryption } {
+    if (this.batch) return this.batch;
+
+    if (!this.publicKey) {
+      const publicKey = base64ToBytes(this.publicKeyBase64);
+      if (publicKey.length !== nacl.box.publicKeyLength) {
+        throw new Error('encryptionPublicKey must be a base-64 X25519 public key');
+      }
+      this.publicKey = publicKey;
+    }
+
+    const key = secureRandomBytes(nacl.secretbox.keyLength);
+    const ephemeral = nacl.box.keyPair.fromSecretKey(
+      secureRandomBytes(nacl.box.secretKeyLength),
+    );
+    const nonce = secureRandomBytes(nacl.box.nonceLength);
+    const wrapped = nacl.box(key, nonce, this.publicKey, ephemeral.secretKey);
+
+    this.batch = {
+      key,
+      header: {
+        algorithm: ALGORITHM,
+        keyId: keyId(this.publicKey),
+        ephemeralPublicKey: bytesToBase64(ephemeral.publicKey),
+        wrappedKey: bytesToBase64(concat(nonce, wrapped)),
+      },
+    };
+    return this.batch;
+  }
+}
+
+// ── Decryption ────────────────────────────────────────────────────────
+
+/**
+ * Decrypt every image in an encrypted payload — for the backend.
+ *
+ * Returns the payload with plain base-64 JPEGs and without the
+ * `encryption` header.  Payloads that are not encrypted are returned
+ * unchanged.  Throws if the key does not match or any image was
+ * tampered with.
+ *
+ * @param secretKey  The X25519 secret key matching
+ *                   `encryptionPublicKey`, as bytes or base-64.
+ *
+ * @example
+ * ```ts
+ * import { decryptPayload } from 'expo-session-capture/dist/frameEncryption';
+ *
+ * const payload = decryptPayload(await request.json(), process.env.CAPTURE_SECRET_KEY);
+ * ```
+ */
+export function decryptPayload(
+  payload: UploadPayload,
+  secretKey: Uint8Array | string,
+): UploadPayload {
+  const header = payload.encryption;
+  if (!header) return payload;
+  if (header.algorithm !== ALGORITHM) {
+    throw new Error(`Unsupported encryption algorithm ${header.algorithm}`);
+  }
+
+  const secret = typeof secretKey === 'string' ? base64ToBytes(secretKey) : secretKey;
+  const wrapped = base64ToBytes(header.wrappedKey);
+  const key = nacl.box.open(
+    wrapped.subarray(nacl.box.nonceLength),
+    wrapped.subarray(0, nacl.box.nonceLength),
+    base64ToBytes(header.ephemeralPublicKey),
+    secret,
+  );
+  if (!key) throw new Error('Could not unwrap the batch key – wrong secret key?');
+
+  const open = (image: string): string => {
+    const sealed = base64ToBytes(image);
+    const plain = nacl.secretbox.open(
+      sealed.subarray(nacl.secretbox.nonceLength),
+      sealed.subarray(0, nacl.secretbox.nonceLength),
+      key,
+    );
+    if (!plain) throw new Error('Frame failed authentication');
+    return bytesToBase64(plain);
+  };
+
+  const { encryption: _, ...rest } = payload;
+  return {
+    ...rest,
+    frames: payload.frames.map((frame) => ({ ...frame, image: open(frame.image) })),
+    tileFrames: (payload.tileFrames ?? []).map((frame) => ({
+      ...frame,
+      ...(frame.image !== undefined && { image: open(frame.image) }),
+      ...(frame.tiles && {
+        tiles: frame.tiles.map((tile) => ({ ...tile, image: open(tile.image) })),
+      }),
+    })),
+  };
+}
+
+/**
+ * Create an X25519 key pair for `encryptionPublicKey`.
+ *
+ * Run this once on a trusted machine (it needs `crypto.getRandomValues`,
+ * available in Node.js and browsers), ship the `publicKey` with the
+ * app, and keep the `secretKey` on the analysis backend only.
+ */
+export function generateEncryptionKeyPair(): { publicKey: string; secretKey: string } {
+  const pair = nacl.box.keyPair.fromSecretKey(secureRandomBytes(nacl.box.secretKeyLength));
+  return {
+    publicKey: bytesToBase64(pair.publicKey),
+    secretKey: bytesToBase64(pair.secretKey),
+  };
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────
+
+/** Short fingerprint of a public key, so the backend can pick the secret key. */
+function keyId(publicKey: Uint8Array): string {
+  return toHex(sha256(publicKey)).slice(0, 16);
+}
+
+function concat(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const out = new Uint8Array(a.length + b.length);
+  out.set(a);
+  out.set(b, a.length);
+  return out;
+}
@@ -0,0 +1,162 @@
+import type { FrustrationSignal } from './types';
+
+// ── Constants ─────────────────────────────────────────────────────────
+
+/** Taps within this distance (px) of each other count as the same spot. */
+const RAGE_TAP_RADIUS = 40;
+
+/**
+ * How far apart (ms) a tap seen by the root observer and the press it
+ * triggered may be.  Press handlers run on release, in the same frame
+ * as the touch end, so this only absorbs event ordering.
+ */
+const PRESS_MATCH_WINDOW_MS = 250;
+
+/** Presses and taps match within this distance (px). */
+const PRESS_MATCH_RADIUS = 30;
+
+// ── Types ─────────────────────────────────────────────────────────────
+
+/**
+ * Options for the {@link FrustrationDetector}.
+ *
+ * @internal
+ */
+export interface FrustrationDetectorOptions {
+  /** Taps on the same spot that make a rage tap. */
+  rageTapCount: number;
+  /** Window (ms) in which `rageTapCount` taps must happen. */
+  rageTapWindowMs: number;
+  /** Called for every detected signal. */
+  onSignal: (signal: FrustrationSignal) => void;
+  /**
+   * Whether presses on the app's pressables are being recorded.  Dead
+   * taps are only reported while it returns `true` — otherwise every
+   * tap would look unhandled.
+   */
+  canDetectDeadTaps: () => boolean;
+}
+
+interface Tap {
+  x: number;
+  y: number;
+  timestamp: number;
+}
+
+// ── Detector ──────────────────────────────────────────────────────────
+
+/**
+ * Detects rage taps and dead taps on-device.
+ *
+ * - **Rage tap** — `rageTapCount` taps within {@link RAGE_TAP_RADIUS}
+ *   px of each other inside `rageTapWindowMs`.
+ * - **Dead tap** — a tap seen by the root touch observer that no
+ *   tracked press handler responded to and that focused no text
+ *   field, i.e. a tap on something that looks interactive but isn't.
+ *   Only detected while `canDetectDeadTaps()` is `true`.
+ *
+ * Fed with every tap from the root gesture observer ({@link tap}),
+ * every tracked press ({@link press}), and every text field focus
+ * ({@link focus}).
+ *
+ * @internal
+ */
+export class FrustrationDetector {
+  private recentTaps: Tap[] = [];
+  private recentPresses: Tap[] = [];
+  private lastFocusAt = -Infinity;
+  private pending = new Map<Tap, ReturnType<typeof setTimeout>>();
+
+  constructor(private opts: FrustrationDetectorOptions) {}
+
+  /** A tap seen by the root touch observer. */
+  tap(tap: Tap): void {
+    this.detectRageTap(tap);
+    if (!this.opts.canDetectDeadTaps()) return;
+
+    this.prune(tap.timestamp);
+    if (this.recentPresses.some((press) => matches(press, tap))) return;
+    if (Math.abs(tap.timestamp - this.lastFocusAt) <= PRESS_MATCH_WINDOW_MS) return;
+
+    // The press may still be on its way – wait before calling it dead.
+    this.pending.set(
+      tap,
+      setTimeout(() => {
+        this.pending.delete(tap);
+        this.opts.onSignal({ type: 'dead-tap', x: tap.x, y: tap.y, timestamp: tap.timestamp });
+      }, PRESS_MATCH_WINDOW_MS),
+    );
+  }
+
+  /** A press handled by a tracked `onPress`. */
+  press(press: Tap): void {
+    this.prune(press.timestamp);
+    this.recentPresses.push(press);
+
+    for (const [tap, timer] of this.pending) {
+      if (matches(press, tap)) {
+        clearTimeout(timer);
+        this.pending.delete(tap);
+      }
+    }
+  }
+
+  /**
+   * A text field gained focus.  Focus carries no coordinates, so any
+   * tap close in time counts as handled.
+   */
+  focus(timestamp: number): void {
+    this.lastFocusAt = timestamp;
+
+    for (const [tap, timer] of this.pending) {
+      if (Math.abs(tap.timestamp - timestamp) <= PRESS_MATCH_WINDOW_MS) {
+        clearTimeout(timer);
+        this.pending.delete(tap);
+      }
+    }
+  }
+
+  /** Forget all taps and cancel pending dead-tap checks. */
+  reset(): void {
+    for (const timer of this.pending.values()) clearTimeout(timer);
+    this.pending.clear();
+    this.recentTaps = [];
+    this.recentPresses = [];
+    this.lastFocusAt = -Infinity;
+  }
+
+  private detectRageTap(tap: Tap): void {
+    this.recentTaps = this.recentTaps.filter(
+      (previous) =>
+        tap.timestamp - previous.timestamp <= this.opts.rageTapWindowMs &&
+        Math.hypot(tap.x - previous.x, tap.y - previous.y) <= RAGE_TAP_RADIUS,
+    );
+    this.recentTaps.push(tap);
+    if (this.recentTaps.length < this.opts.rageTapCount) return;
+
+    const first = this.recentTaps[0];
+    this.opts.onSignal({
+      type: 'rage-tap',
+      x: tap.x,
+      y: tap.y,
+      timestamp: tap.timestamp,
+      tapCount: this.recentTaps.length,
+      durationMs: tap.timestamp - first.timestamp,
+    });
+    // Start over, so a long burst is reported once per `rageTapCount` taps.
+    this.recentTaps = [];
+  }
+
+  private prune(now: number): void {
+    this.recentPresses = this.recentPresses.filter(
+      (press) => now - press.timestamp <= PRESS_MATCH_WINDOW_MS,
+    );
+  }
+}
+
+function matches(press: Tap, tap: Tap): boolean {
+  return (
+    Math.abs(press.timestamp - tap.timestamp) <= PRESS_MATCH_WINDOW_MS &&
+    Math.hypot(press.x - tap.x, press.y - tap.y) <= PRESS_MATCH_RADIUS
+  );
+}
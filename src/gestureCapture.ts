@@ -0,0 +1,107 @@
+import type { GestureResponderEvent, NativeTouchEvent, ViewProps } from 'react-native';
+import { GestureClassifier } from './gestureClassifier';
+import type { TouchPoint } from './gestureClassifier';
+import { emitTrackingEvent } from './trackingBus';
+
+// ── Last touch ────────────────────────────────────────────────────────
+
+/** How long (ms) the last touch may stand in for a handler's event. */
+const LAST_TOUCH_MAX_AGE_MS = 1000;
+
+let lastTouch: { x: number; y: number; timestamp: number } | null = null;
+
+/**
+ * Page coordinates of the most recent touch on the root view, if it
+ * happened within the last second.
+ *
+ * Used to place presses whose handler receives no touch event (e.g.
+ * `Switch.onValueChange`, gesture-handler buttons).
+ *
+ * @internal
+ */
+export function getLastTouch(): { x: number; y: number } | null {
+  if (!lastTouch || Date.now() - lastTouch.timestamp > LAST_TOUCH_MAX_AGE_MS) return null;
+  return { x: lastTouch.x, y: lastTouch.y };
+}
+
+function recordLastTouch(touches: TouchPoint[]): void {
+  const touch = touches[touches.length - 1];
+  if (touch) lastTouch = { x: touch.x, y: touch.y, timestamp: Date.now() };
+}
+
+// ── Internal helpers ──────────────────────────────────────────────────
+
+function toPoints(touches: NativeTouchEvent[] | undefined): TouchPoint[] {
+  return (touches ?? []).map((touch) => ({
+    id: touch.identifier,
+    x: touch.pageX,
+    y: touch.pageY,
+  }));
+}
+
+// ── Public API ────────────────────────────────────────────────────────
+
+/**
+ * Root-view props that observe every touch in the app, remember the
+ * last touch, and — with `classify` — emit the classified gestures
+ * onto the tracking bus.
+ *
+ * Touch starts and moves are seen through the capture phase of the
+ * responder system; the handlers always return `false`, so they never
+ * become the responder and never steal a gesture from the component
+ * underneath.  Touch ends bubble up as `onTouchEnd` / `onTouchCancel`.
+ * A cancelled stream (e.g. a native scroll view took over) is
+ * classified from the touches seen so far.
+ *
+ * Spread onto the root `<View>` by `<SessionCaptureProvider>`, with
+ * `classify` set from `enableGestureCapture`.
+ *
+ * @internal
+ */
+export function createGestureObserver(options: { classify: boolean }): Pick<
+  ViewProps,
+  | 'onStartShouldSetResponderCapture'
+  | 'onMoveShouldSetResponderCapture'
+  | 'onTouchEnd'
+  | 'onTouchCancel'
+> {
+  const classifier = new GestureClassifier();
+
+  const end = (e: GestureResponderEvent) => {
+    try {
+      const changed = toPoints(e.nativeEvent.changedTouches);
+      recordLastTouch(changed);
+      if (!options.classify) return;
+
+      const gesture = classifier.end(changed, toPoints(e.nativeEvent.touches), Date.now());
+      if (gesture) emitTrackingEvent({ type: 'gesture', source: 'auto', gesture });
+    } catch {
+      // Observing touches must never break them.
+    }
+  };
+
+  return {
+    onStartShouldSetResponderCapture: (e) => {
+      try {
+        const touches = toPoints(e.nativeEvent.touches);
+        recordLastTouch(touches);
+        if (options.classify) classifier.start(touches, Date.now());
+      } catch {
+        // Observing touches must never break them.
+      }
+      return false;
+    },
+    onMoveShouldSetResponderCapture: (e) => {
+      try {
+        const touches = toPoints(e.nativeEvent.touches);
+        recordLastTouch(touches);
+        if (options.classify) classifier.move(touches);
+      } catch {
+        // Observing touches must never break them.
+      }
+      return false;
+    },
+    onTouchEnd: end,
+    onTouchCancel: end,
+  };
+}
@@ -0,0 +1,206 @@
+import type { GestureEvent, ScreenAttribution } from './types';
+
+// ── Constants ─────────────────────────────────────────────────────────
+
+/** Movement (px) up to which a touch still counts as stationary. */
+const MOVE_SLOP = 20;
+
+/** Minimum hold (ms) for a stationary touch to be a long press. */
+const LONG_PRESS_MS = 500;
+
+/** Maximum gap (ms) between two taps that form a double tap. */
+const DOUBLE_TAP_MS = 300;
+
+/** Maximum distance (px) between two taps that form a double tap. */
+const DOUBLE_TAP_SLOP = 40;
+
+/** Minimum change in finger distance (fraction) to count as a pinch. */
+const PINCH_THRESHOLD = 0.1;
+
+// ── Types ─────────────────────────────────────────────────────────────
+
+/**
+ * One finger, in page coordinates.
+ *
+ * @internal
+ */
+export interface TouchPoint {
+  id: string | number;
+  x: number;
+  y: number;
+}
+
+/**
+ * A classified gesture, before the tracking bus adds its timestamp.
+ *
+ * @internal
+ */
+export type ClassifiedGesture = Omit<GestureEvent, 'timestamp' | keyof ScreenAttribution>;
+
+interface TouchStream {
+  startedAt: number;
+  start: Map<string | number, TouchPoint>;
+  last: Map<string | number, TouchPoint>;
+  /** The first finger down — drives tap, long-press, and swipe. */
+  primary: string | number;
+  /** The first two fingers down together — drive pinch. */
+  pinchPair: [string | number, string | number] | null;
+  maxPointers: number;
+}
+
+// ── Classifier ────────────────────────────────────────────────────────
+
+/**
+ * Turns a raw touch stream into a single gesture: tap, double tap,
+ * long press, swipe, or pinch.
+ *
+ * A stream runs from the first finger down to the last finger up.
+ * Feed it every touch start, move, and end; {@link end} returns the
+ * gesture once no fingers remain.
+ *
+ * @internal
+ */
+export class GestureClassifier {
+  private stream: TouchStream | null = null;
+  private lastTap: { at: number; x: number; y: number } | null = null;
+
+  /** A finger went down.  `touches` are all fingers on the screen. */
+  start(touches: TouchPoint[], now: number): void {
+    if (touches.length === 0) return;
+    if (!this.stream) {
+      this.stream = {
+        startedAt: now,
+        start: new Map(),
+        last: new Map(),
+        primary: touches[0].id,
+        pinchPair: null,
+        maxPointers: 0,
+      };
+    }
+
+    const stream = this.stream;
+    for (const touch of touches) {
+      if (!stream.start.has(touch.id)) stream.start.set(touch.id, touch);
+      stream.last.set(touch.id, touch);
+    }
+    stream.maxPointers = Math.max(stream.maxPointers, touches.length);
+    if (!stream.pinchPair && touches.length >= 2) {
+      stream.pinchPair = [touches[0].id, touches[1].id];
+      // Measure the pinch from where both fingers were when it began.
+      stream.start.set(touches[0].id, touches[0]);
+      stream.start.set(touches[1].id, touches[1]);
+    }
+  }
+
+  /** Fingers moved. */
+  move(touches: TouchPoint[]): void {
+    if (!this.stream) return;
+    for (const touch of touches) this.stream.last.set(touch.id, touch);
+  }
+
+  /**
+   * Fingers were lifted (or the touch was cancelled).
+   *
+   * @param changed    The fingers that were lifted, at their final position.
+   * @param remaining  Fingers still on the screen.
+   * @returns The gesture once the last finger is up, otherwise `null`.
+   */
+  end(changed: TouchPoint[], remaining: TouchPoint[], now: number): ClassifiedGesture | null {
+    if (!this.stream) return null;
+    for (const touch of changed) this.stream.last.set(touch.id, touch);
+    if (remaining.length > 0) return null;
+
+    const stream = this.stream;
+    this.stream = null;
+    return this.classify(stream, now);
+  }
+
+  /** Forget the current stream and the last tap. */
+  reset(): void {
+    this.stream = null;
+    this.lastTap = null;
+  }
+
+  private classify(stream: TouchStream, now: number): ClassifiedGesture | null {
+    const durationMs = now - stream.startedAt;
+
+    const pinch = stream.pinchPair && this.pinch(stream, stream.pinchPair, durationMs);
+    if (pinch) {
+      this.lastTap = null;
+      return pinch;
+    }
+
+    const start = stream.start.get(stream.primary);
+    const end = stream.last.get(stream.primary);
+    if (!start || !end) return null;
+
+    const dx = end.x - start.x;
+    const dy = end.y - start.y;
+    const distance = Math.hypot(dx, dy);
+    const base = {
+      x: Math.round(start.x),
+      y: Math.round(start.y),
+      durationMs,
+      pointerCount: stream.maxPointers,
+    };
+
+    if (distance > MOVE_SLOP) {
+      this.lastTap = null;
+      const direction =
+        Math.abs(dx) >= Math.abs(dy) ? (dx > 0 ? 'right' : 'left') : dy > 0 ? 'down' : 'up';
+      return {
+        ...base,
+        type: 'swipe',
+        direction,
+        distance: Math.round(distance),
+        velocity: Math.round(distance / Math.max(durationMs / 1000, 0.001)),
+      };
+    }
+
+    if (durationMs >= LONG_PRESS_MS) {
+      this.lastTap = null;
+      return { ...base, type: 'long-press' };
+    }
+
+    const previous = this.lastTap;
+    if (
+      previous &&
+      stream.startedAt - previous.at <= DOUBLE_TAP_MS &&
+      Math.hypot(start.x - previous.x, start.y - previous.y) <= DOUBLE_TAP_SLOP
+    ) {
+      this.lastTap = null;
+      return { ...base, type: 'double-tap' };
+    }
+
+    this.lastTap = { at: now, x: start.x, y: start.y };
+    return { ...base, type: 'tap' };
+  }
+
+  private pinch(
+    stream: TouchStream,
+    [a, b]: [string | number, string | number],
+    durationMs: number,
+  ): ClassifiedGesture | null {
+    const startA = stream.start.get(a);
+    const startB = stream.start.get(b);
+    const endA = stream.last.get(a);
+    const endB = stream.last.get(b);
+    if (!startA || !startB || !endA || !endB) return null;
+
+    const startDistance = Math.hypot(startA.x - startB.x, startA.y - startB.y);
+    if (startDistance === 0) return null;
+    const scale = Math.hypot(endA.x - endB.x, endA.y - endB.y) / startDistance;
+    if (Math.abs(scale - 1) < PINCH_THRESHOLD) return null;
+
+    return {
+      type: 'pinch',
+      x: Math.round((startA.x + startB.x) / 2),
+      y: Math.round((startA.y + startB.y) / 2),
+      durationMs,
+      pointerCount: stream.maxPointers,
+      direction: scale > 1 ? 'out' : 'in',
+      scale: Math.round(scale * 100) / 100,
+      velocity: Math.round((Math.abs(scale - 1) / Math.max(durationMs / 1000, 0.001)) * 100) / 100,
+    };
+  }
+}
@@ -0,0 +1,218 @@
+import { TextInput } from 'react-native';
+import type {
+  NativeSyntheticEvent,
+  TextInputChangeEventData,
+  TextInputFocusEventData,
+} from 'react-native';
+import { addElementTransform } from './elementInterceptor';
+import { emitTrackingEvent, EXPLICIT_HANDLER } from './trackingBus';
+import type { InputEvent } from './types';
+
+// ── Field recorder ────────────────────────────────────────────────────
+
+/**
+ * How a {@link FieldRecorder} reports its field.
+ *
+ * @internal
+ */
+export interface FieldOptions {
+  field: string;
+  form?: string;
+  /** Record the typed text on `blur` / `submit`. */
+  captureValue: boolean;
+  source: InputEvent['source'];
+}
+
+/**
+ * Tracks one text field between focus and blur, and emits its
+ * {@link InputEvent}s onto the tracking bus.
+ *
+ * The text is only kept in memory when `captureValue` is set.
+ *
+ * @internal
+ */
+export class FieldRecorder {
+  private focusedAt: number | null = null;
+  private changeCount = 0;
+  private text: string | undefined;
+
+  constructor(private options: FieldOptions) {}
+
+  /** Apply the options of the latest render. */
+  update(options: FieldOptions): void {
+    this.options = options;
+    if (!options.captureValue) this.text = undefined;
+  }
+
+  focus(): void {
+    this.focusedAt = Date.now();
+    this.changeCount = 0;
+    this.emit({ type: 'focus' });
+  }
+
+  change(text: string): void {
+    this.changeCount++;
+    if (this.options.captureValue) this.text = text;
+  }
+
+  blur(): void {
+    this.emit({
+      type: 'blur',
+      changeCount: this.changeCount,
+      ...(this.focusedAt !== null && { durationMs: Date.now() - this.focusedAt }),
+      ...this.value(),
+    });
+    this.focusedAt = null;
+  }
+
+  submit(): void {
+    this.emit({ type: 'submit', changeCount: this.changeCount, ...this.value() });
+  }
+
+  error(message: string): void {
+    this.emit({ type: 'validation-error', error: message });
+  }
+
+  private value(): { value?: string } {
+    return this.options.captureValue && this.text !== undefined ? { value: this.text } : {};
+  }
+
+  private emit(
+    event: Pick<InputEvent, 'type' | 'changeCount' | 'durationMs' | 'value' | 'error'>,
+  ): void {
+    const { field, form, source } = this.options;
+    emitTrackingEvent({
+      type: 'input',
+      source,
+      input: { ...event, field, ...(form !== undefined && { form }) },
+    });
+  }
+}
+
+// ── Internal helpers ──────────────────────────────────────────────────
+
+/**
+ * Infer a field name from common `TextInput` props.
+ *
+ * Checks (in order): `testID`, `nativeID`, `accessibilityLabel`,
+ * `aria-label`, `placeholder`.  Returns `undefined` if none are set.
+ */
+function getFieldName(props: Record<string, unknown>): string | undefined {
+  for (const key of ['testID', 'nativeID', 'accessibilityLabel', 'aria-label', 'placeholder']) {
+    const value = props[key];
+    if (typeof value === 'string' && value) return value;
+  }
+  return undefined;
+}
+
+/**
+ * Identity of the field instance an event came from: its native tag,
+ * or the host instance where the event carries no tag.
+ */
+function getEventTarget(event: unknown): unknown {
+  const e = event as { nativeEvent?: { target?: unknown }; currentTarget?: unknown } | null;
+  return e?.nativeEvent?.target ?? e?.currentTarget ?? undefined;
+}
+
+type Handler<T> = ((arg: T) => void) | undefined;
+
+// ── Public API ────────────────────────────────────────────────────────
+
+let installed = false;
+
+/**
+ * Options for {@link installGlobalInputCapture}.
+ */
+export interface GlobalInputCaptureOptions {
+  /**
+   * Field names whose typed value may be recorded.  Values of all
+   * other fields — and of every `secureTextEntry` field — are never
+   * recorded.
+   */
+  capturedValues?: string[];
+}
+
+/**
+ * Monkey-patches `React.createElement` and the automatic JSX runtime
+ * to record focus, blur, change counts, and submit of every
+ * `<TextInput>`.
+ *
+ * Field names are inferred from `testID`, `nativeID`,
+ * `accessibilityLabel`, `aria-label`, or — as a last resort, since it
+ * is usually translated — `placeholder`; inputs without any of them
+ * are skipped.  Change counts are kept per field instance, so fields
+ * that share a name are still counted separately.
+ * `<TrackedTextInput>` fields are skipped too, so there are never
+ * duplicate events.
+ *
+ * Called automatically by `<SessionCaptureProvider>` when
+ * `enableGlobalInputCapture` is `true`.  Safe to call multiple times —
+ * only patches once.
+ *
+ * @see TrackedTextInput — for explicit field names, forms, and
+ *      validation errors.
+ */
+export function installGlobalInputCapture(options: GlobalInputCaptureOptions = {}): void {
+  if (installed) return;
+  installed = true;
+
+  const capturedValues = new Set(options.capturedValues ?? []);
+  // One recorder per mounted field, from its first event to blur.
+  // Keyed by the field instance, so fields with the same name (e.g. a
+  // shared placeholder) never share a change count.
+  const recorders = new Map<unknown, FieldRecorder>();
+
+  addElementTransform((type, props) => {
+    if (type !== TextInput) return props;
+    if ((props.onFocus as any)?.[EXPLICIT_HANDLER]) return props;
+
+    const field = getFieldName(props);
+    if (!field) return props;
+
+    const fieldOptions: FieldOptions = {
+      field,
+      captureValue: capturedValues.has(field) && props.secureTextEntry !== true,
+      source: 'auto',
+    };
+    const recorderFor = (event: unknown): [unknown, FieldRecorder] => {
+      const key = getEventTarget(event) ?? field;
+      let recorder = recorders.get(key);
+      if (recorder) {
+        recorder.update(fieldOptions);
+      } else {
+        recorder = new FieldRecorder(fieldOptions);
+        recorders.set(key, recorder);
+      }
+      return [key, recorder];
+    };
+
+    const onFocus = props.onFocus as Handler<NativeSyntheticEvent<TextInputFocusEventData>>;
+    const onBlur = props.onBlur as Handler<NativeSyntheticEvent<TextInputFocusEventData>>;
+    const onChange = props.onChange as Handler<NativeSyntheticEvent<TextInputChangeEventData>>;
+    const onSubmitEditing = props.onSubmitEditing as Handler<unknown>;
+
+    return {
+      ...props,
+      onFocus: (e: NativeSyntheticEvent<TextInputFocusEventData>) => {
+        recorderFor(e)[1].focus();
+        return onFocus?.(e);
+      },
+      onBlur: (e: NativeSyntheticEvent<TextInputFocusEventData>) => {
+        const [key, recorder] = recorderFor(e);
+        recorder.blur();
+        recorders.delete(key);
+        return onBlur?.(e);
+      },
+      // `onChange` rather than `onChangeText`: only its event tells
+      // which field instance changed.
+      onChange: (e: NativeSyntheticEvent<TextInputChangeEventData>) => {
+        recorderFor(e)[1].change(e?.nativeEvent?.text ?? '');
+        return onChange?.(e);
+      },
+      onSubmitEditing: (e: unknown) => {
+        recorderFor(e)[1].submit();
+        return onSubmitEditing?.(e);
+      },
+    };
+  });
+}
@@ -1,90 +1,288 @@
-import React from 'react';
 import {
+  Button,
   Pressable,
-  TouchableOpacity,
+  Switch,
+  Text,
+  TextInput,
   TouchableHighlight,
+  TouchableNativeFeedback,
+  TouchableOpacity,
+  TouchableWithoutFeedback,
 } from 'react-native';
-import type { GestureResponderEvent } from 'react-native';
+import {
+  addElementTransform,
+  createElementVia,
+  ELEMENT_FACTORIES,
+  getComponentName,
+} from './elementInterceptor';
+import type { ElementFactory } from './elementInterceptor';
+import { getLastTouch } from './gestureCapture';
 import { emitTrackingEvent, EXPLICIT_HANDLER } from './trackingBus';
+import type { TrackingEvent } from './types';
+
+// ── Types ─────────────────────────────────────────────────────────────
+
+/**
+ * Options for {@link registerPressableType}.
+ */
+export interface PressableTypeOptions {
+  /**
+   * Props holding the handlers to capture.  Each call records a press
+   * with the prop name as its `handler`.
+   *
+   * @default ['onPress']
+   */
+  handlerProps?: string[];
+}
+
+/**
+ * Result of {@link getGlobalCaptureStatus}.
+ */
+export interface GlobalCaptureStatus {
+  /** Whether {@link installGlobalPressCapture} has run. */
+  installed: boolean;
+
+  /**
+   * Per element factory: `true` when a pressable created through it
+   * gets its handlers captured, `false` when it does not, and `null`
+   * when the factory is not available in this React version or build
+   * (e.g. `jsxDEV` in production).
+   */
+  factories: Record<ElementFactory, boolean | null>;
+
+  /** Pressable elements with a handler seen since installation. */
+  pressablesSeen: number;
+
+  /**
+   * Whether presses are actually being captured: installed, and at
+   * least one of the app's pressables has been seen.  Only meaningful
+   * once a screen with buttons has rendered.
+   */
+  effective: boolean;
+}
 
 // ── Internal helpers ──────────────────────────────────────────────────
 
-/** Symbol used to prevent double-wrapping an `onPress` handler. */
+/** Symbol used to prevent double-wrapping a handler. */
 const ALREADY_PATCHED = Symbol('already-patched');
 
+/** Handlers captured on the built-in touchables. */
+const PRESS_HANDLERS = ['onPress', 'onLongPress'];
+
+/** Gesture-handler touchables captured when the library is installed. */
+const GESTURE_HANDLER_TYPES = [
+  'BaseButton',
+  'RectButton',
+  'BorderlessButton',
+  'TouchableOpacity',
+  'TouchableHighlight',
+  'TouchableWithoutFeedback',
+  'TouchableNativeFeedback',
+  'Pressable',
+];
+
+/** Element context attached to every auto-captured press. */
+type PressContext = Pick<TrackingEvent, 'label' | 'componentName' | 'accessibilityRole' | 'testID'>;
+
+/** Component types whose handlers are captured, with their handler props. */
+const pressableTypes = new Map<unknown, string[]>();
+
+/** Pressable elements seen by the transform, excluding self-test probes. */
+let pressablesSeen = 0;
+
+/** Called with the time of every text field focus. */
+const focusListeners = new Set<(timestamp: number) => void>();
+
+/** Registered pressable created by the self-test; never rendered. */
+function SelfTestProbe(): null {
+  return null;
+}
+
 /**
  * Try to infer a human-readable label from common component props.
  *
- * Checks (in order): `accessibilityLabel`, `aria-label`, `testID`.
- * Returns `undefined` if none are set.
+ * Checks (in order): `accessibilityLabel`, `aria-label`, `testID`, and
+ * `title` (e.g. `<Button>`).  Returns `undefined` if none are set.
  */
 function getAccessibilityLabel(props: Record<string, unknown>): string | undefined {
   return (
     (props?.accessibilityLabel as string) ??
     (props?.['aria-label'] as string) ??
     (props?.testID as string) ??
-    undefined
+    (typeof props?.title === 'string' ? props.title : undefined)
   );
 }
 
+/** Collect the {@link PressContext} of a pressable element. */
+function getPressContext(type: unknown, props: Record<string, unknown>): PressContext {
+  const role = props.accessibilityRole ?? props.role;
+  return {
+    label: getAccessibilityLabel(props),
+    componentName: getComponentName(type),
+    accessibilityRole: typeof role === 'string' ? role : undefined,
+    testID: typeof props.testID === 'string' ? props.testID : undefined,
+  };
+}
+
 /**
- * Wrap an `onPress` handler so it emits an `auto` tracking event
- * **before** calling the original handler.
+ * Page coordinates of a press.  Taken from the handler's touch event
+ * when it has one, otherwise from the last touch on the root view —
+ * `Switch.onValueChange` and gesture-handler buttons get no event.
+ */
+function getPressCoordinates(event: unknown): { x: number; y: number } | undefined {
+  const nativeEvent = (event as { nativeEvent?: { pageX?: unknown; pageY?: unknown } } | null)
+    ?.nativeEvent;
+  if (typeof nativeEvent?.pageX === 'number' && typeof nativeEvent.pageY === 'number') {
+    return { x: nativeEvent.pageX, y: nativeEvent.pageY };
+  }
+  return getLastTouch() ?? undefined;
+}
+
+/**
+ * Wrap a handler so it emits an `auto` tracking event **before**
+ * calling the original handler.
  *
  * Skips wrapping if:
  * - The handler is already patched (`ALREADY_PATCHED` symbol).
  * - The handler was created by `<TrackedPressable>` (`EXPLICIT_HANDLER`
  *   symbol) — prevents duplicate events.
  */
-function wrapOnPress(
-  originalOnPress: ((e: GestureResponderEvent) => void),
-  inferredLabel?: string,
-): (e: GestureResponderEvent) => void {
-  if ((originalOnPress as any)[ALREADY_PATCHED]) return originalOnPress;
+function wrapHandler(
+  original: (...args: unknown[]) => unknown,
+  context: PressContext,
+  handler: string,
+): (...args: unknown[]) => unknown {
+  if ((original as any)[ALREADY_PATCHED]) return original;
 
   // If the handler was created by TrackedPressable, skip wrapping –
   // the explicit event is emitted inside TrackedPressable itself.
-  if ((originalOnPress as any)[EXPLICIT_HANDLER]) return originalOnPress;
-
-  const wrapped = (e: GestureResponderEvent) => {
-    const coords =
-      e?.nativeEvent != null
-        ? { x: e.nativeEvent.pageX, y: e.nativeEvent.pageY }
-        : undefined;
+  if ((original as any)[EXPLICIT_HANDLER]) return original;
 
+  const wrapped = (...args: unknown[]) => {
     emitTrackingEvent({
       type: 'press',
       source: 'auto',
-      label: inferredLabel,
-      coordinates: coords,
+      ...context,
+      handler,
+      coordinates: getPressCoordinates(args[0]),
     });
 
-    return originalOnPress(e);
+    return original(...args);
   };
 
   (wrapped as any)[ALREADY_PATCHED] = true;
   return wrapped;
 }
 
+/**
+ * Wrap a `TextInput`'s `onFocus` so every focus reaches the
+ * {@link onTextInputFocus} listeners.  Keeps the `EXPLICIT_HANDLER`
+ * mark of `<TrackedTextInput>` handlers for global input capture.
+ */
+function observeFocus(props: Record<string, unknown>): Record<string, unknown> {
+  const original = props.onFocus as ((...args: unknown[]) => unknown) | undefined;
+  if ((original as any)?.[ALREADY_PATCHED]) return props;
+
+  const onFocus = (...args: unknown[]) => {
+    const timestamp = Date.now();
+    for (const listener of focusListeners) listener(timestamp);
+    return original?.(...args);
+  };
+  (onFocus as any)[ALREADY_PATCHED] = true;
+  if ((original as any)?.[EXPLICIT_HANDLER]) (onFocus as any)[EXPLICIT_HANDLER] = true;
+  return { ...props, onFocus };
+}
+
+/** Register the built-in types, keeping any options set by the app. */
+function registerBuiltInTypes(): void {
+  const builtIns: [unknown, string[]][] = [
+    [Pressable, PRESS_HANDLERS],
+    [TouchableOpacity, PRESS_HANDLERS],
+    [TouchableHighlight, PRESS_HANDLERS],
+    [TouchableWithoutFeedback, PRESS_HANDLERS],
+    [TouchableNativeFeedback, PRESS_HANDLERS],
+    [Button, ['onPress']],
+    [Switch, ['onValueChange']],
+    [Text, PRESS_HANDLERS],
+    [SelfTestProbe, ['onPress']],
+  ];
+
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const GestureHandler = require('react-native-gesture-handler');
+    for (const name of GESTURE_HANDLER_TYPES) {
+      if (GestureHandler?.[name]) builtIns.push([GestureHandler[name], PRESS_HANDLERS]);
+    }
+  } catch {
+    // react-native-gesture-handler not installed – core types only.
+  }
+
+  for (const [type, handlerProps] of builtIns) {
+    if (type && !pressableTypes.has(type)) pressableTypes.set(type, handlerProps);
+  }
+}
+
 // ── Public API ────────────────────────────────────────────────────────
 
+/**
+ * Capture presses on another component type — e.g. your design
+ * system's buttons or a third-party touchable.
+ *
+ * Can be called before or after {@link installGlobalPressCapture};
+ * registering a type again replaces its options.  Handlers that
+ * receive no touch event are placed at the last touch on the root
+ * view.
+ *
+ * @param type     The component, as used in JSX.
+ * @param options  Which handler props to capture.
+ *
+ * @example
+ * ```ts
+ * import { registerPressableType } from 'expo-session-capture';
+ * import { DSButton, DSToggle } from './design-system';
+ *
+ * registerPressableType(DSButton);
+ * registerPressableType(DSToggle, { handlerProps: ['onToggle'] });
+ * ```
+ */
+export function registerPressableType(
+  type: unknown,
+  options: PressableTypeOptions = {},
+): void {
+  if (!type) return;
+  pressableTypes.set(type, options.handlerProps ?? ['onPress']);
+}
+
 let installed = false;
 
 /**
- * Monkey-patches `React.createElement` to automatically intercept
- * `onPress` on all pressable components:
+ * Monkey-patches `React.createElement` and the automatic JSX runtime
+ * (`jsx`, `jsxs`, `jsxDEV`) to automatically intercept handlers on all
+ * pressable components:
  *
- * - `Pressable`
- * - `TouchableOpacity`
- * - `TouchableHighlight`
+ * - `Pressable`, `TouchableOpacity`, `TouchableHighlight`,
+ *   `TouchableWithoutFeedback`, `TouchableNativeFeedback` — `onPress`,
+ *   `onLongPress`
+ * - `Button` — `onPress`
+ * - `Switch` — `onValueChange`
+ * - `Text` with `onPress` / `onLongPress` (e.g. inline links)
+ * - `react-native-gesture-handler` buttons and touchables, when
+ *   installed — `onPress`, `onLongPress`
+ * - anything added with {@link registerPressableType}
  *
- * Labels are inferred from `accessibilityLabel`, `aria-label`, or
- * `testID`.  Handlers created by `<TrackedPressable>` are
+ * Labels are inferred from `accessibilityLabel`, `aria-label`,
+ * `testID`, or `title`; each event also carries the component's
+ * display name, `accessibilityRole`, `testID`, and the handler prop
+ * that fired.  Handlers created by `<TrackedPressable>` are
  * automatically skipped so there are **never** duplicate events.
  *
+ * `<TextInput>` focus is observed too (no events are emitted), so a
+ * tap that focuses a text field is never reported as a dead tap.
+ *
  * Called automatically by `<SessionCaptureProvider>` when
  * `enableGlobalPressCapture` is `true` (the default).  Safe to call
- * multiple times — only patches once.
+ * multiple times — only patches once.  Use
+ * {@link getGlobalCaptureStatus} to check that it is effective.
  *
  * @see TrackedPressable — for explicit, labelled tap tracking.
  */
@@ -92,39 +290,95 @@ export function installGlobalPressCapture(): void {
   if (installed) return;
   installed = true;
 
-  const originalCreateElement = React.createElement;
-
-  const pressableTypes = new Set<unknown>([
-    Pressable,
-    TouchableOpacity,
-    TouchableHighlight,
-  ]);
-
-  // @ts-ignore – intentional monkey-patch
-  React.createElement = function patchedCreateElement(
-    type: unknown,
-    props: Record<string, unknown> | null,
-    ...children: unknown[]
-  ) {
-    if (
-      props?.onPress &&
-      typeof props.onPress === 'function' &&
-      pressableTypes.has(type)
-    ) {
-      const inferredLabel = getAccessibilityLabel(props);
-      props = {
-        ...props,
-        onPress: wrapOnPress(
-          props.onPress as (e: GestureResponderEvent) => void,
-          inferredLabel,
-        ),
-      };
+  registerBuiltInTypes();
+
+  addElementTransform((type, props) => {
+    if (type === TextInput) return observeFocus(props);
+
+    const handlerProps = pressableTypes.get(type);
+    if (!handlerProps) return props;
+
+    let next = props;
+    let context: PressContext | undefined;
+    for (const prop of handlerProps) {
+      const original = props[prop];
+      if (typeof original !== 'function') continue;
+
+      context ??= getPressContext(type, props);
+      const wrapped = wrapHandler(original as (...args: unknown[]) => unknown, context, prop);
+      if (wrapped === original) continue;
+      if (next === props) next = { ...props };
+      next[prop] = wrapped;
     }
+    if (context && type !== SelfTestProbe) pressablesSeen++;
+    return next;
+  });
+}
+
+/**
+ * Whether presses are being captured — the cheap form of
+ * {@link getGlobalCaptureStatus}'s `effective`, without the probes.
+ *
+ * @internal
+ */
+export function isGlobalPressCaptureEffective(): boolean {
+  return installed && pressablesSeen > 0;
+}
+
+/**
+ * Subscribe to the focus of every `<TextInput>`, whether or not global
+ * input capture is enabled.  Observed by the press capture transform,
+ * so focus is seen whenever presses are.
+ *
+ * Used by dead-tap detection: a tap that focuses a text field was
+ * handled.
+ *
+ * @returns A function that removes the listener again.
+ *
+ * @internal
+ */
+export function onTextInputFocus(listener: (timestamp: number) => void): () => void {
+  focusListeners.add(listener);
+  return () => {
+    focusListeners.delete(listener);
+  };
+}
+
+/**
+ * Self-test for global press capture.
+ *
+ * Creates a probe pressable through each element factory — the way
+ * compiled app code does — and checks whether its `onPress` comes back
+ * wrapped, then reports how many of the app's pressables have been
+ * seen.  If `effective` stays `false` after the app has rendered
+ * buttons, the app's JSX bypasses every patched factory (e.g. a
+ * bundler that serves React as frozen ES modules); use
+ * `<TrackedPressable>` instead.
+ *
+ * Never emits tracking events.
+ *
+ * @example
+ * ```ts
+ * import { getGlobalCaptureStatus } from 'expo-session-capture';
+ *
+ * const status = getGlobalCaptureStatus();
+ * if (!status.effective) {
+ *   console.warn('Press capture is not working', status.factories);
+ * }
+ * ```
+ */
+export function getGlobalCaptureStatus(): GlobalCaptureStatus {
+  const factories = {} as Record<ElementFactory, boolean | null>;
+  for (const factory of ELEMENT_FACTORIES) {
+    const onPress = () => {};
+    const element = createElementVia(factory, SelfTestProbe, { onPress });
+    factories[factory] = element ? element.props?.onPress !== onPress : null;
+  }
 
-    return (originalCreateElement as Function).apply(this, [
-      type,
-      props,
-      ...children,
-    ]);
+  return {
+    installed,
+    factories,
+    pressablesSeen,
+    effective: isGlobalPressCaptureEffective(),
   };
 }
@@ -0,0 +1,82 @@
+// ── UTF-8 ─────────────────────────────────────────────────────────────
+
+/**
+ * Encode a string as UTF-8 bytes.
+ *
+ * Hand-rolled because `TextEncoder` is not available on every
+ * React Native runtime.  Lone surrogates are encoded as U+FFFD.
+ *
+ * @internal
+ */
+export function utf8Bytes(input: string): Uint8Array {
+  const out: number[] = [];
+  for (let i = 0; i < input.length; i++) {
+    let code = input.charCodeAt(i);
+
+    if (code >= 0xd800 && code <= 0xdbff && i + 1 < input.length) {
+      const next = input.charCodeAt(i + 1);
+      if (next >= 0xdc00 && next <= 0xdfff) {
+        code = 0x10000 + ((code - 0xd800) << 10) + (next - 0xdc00);
+        i++;
+      } else {
+        code = 0xfffd;
+      }
+    } else if (code >= 0xd800 && code <= 0xdfff) {
+      code = 0xfffd;
+    }
+
+    if (code < 0x80) {
+      out.push(code);
+    } else if (code < 0x800) {
+      out.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+    } else if (code < 0x10000) {
+      out.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+    } else {
+      out.push(
+        0xf0 | (code >> 18),
+        0x80 | ((code >> 12) & 0x3f),
+        0x80 | ((code >> 6) & 0x3f),
+        0x80 | (code & 0x3f),
+      );
+    }
+  }
+  return Uint8Array.from(out);
+}
+
+// ── Hashing ───────────────────────────────────────────────────────────
+
+/**
+ * 32-bit FNV-1a over the given bytes, followed by the MurmurHash3
+ * `fmix32` finaliser.
+ *
+ * FNV-1a alone mixes the high bits poorly for short, similar inputs
+ * (e.g. sequential user IDs); the finaliser gives full avalanche so
+ * every output bit depends on every input bit.
+ *
+ * @returns An unsigned 32-bit integer.
+ *
+ * @internal
+ */
+export function hashBytes(bytes: Uint8Array): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < bytes.length; i++) {
+    h ^= bytes[i];
+    h = Math.imul(h, 0x01000193);
+  }
+
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+/**
+ * Hash a string (as UTF-8) with {@link hashBytes}.
+ *
+ * @internal
+ */
+export function hashString(input: string): number {
+  return hashBytes(utf8Bytes(input));
+}
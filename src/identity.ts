@@ -0,0 +1,47 @@
+import { STORAGE_KEY_PREFIX } from './storage';
+import type { StorageAdapter } from './storage';
+
+// ── Persistence ───────────────────────────────────────────────────────
+
+const ANONYMOUS_ID_KEY = `${STORAGE_KEY_PREFIX}anonymous-id`;
+
+/**
+ * Return the anonymous ID persisted for this install, creating and
+ * persisting one with `createId` on first launch.
+ *
+ * Keeping the ID stable is what makes sampling deterministic for
+ * anonymous users and lets sessions from the same device be stitched
+ * together.  If storage is unavailable, a fresh ID is returned (and
+ * the user is effectively re-rolled on the next launch).
+ *
+ * @internal
+ */
+export async function loadAnonymousId(
+  storage: StorageAdapter,
+  createId: () => string,
+): Promise<string> {
+  try {
+    const existing = await storage.getItem(ANONYMOUS_ID_KEY);
+    if (existing) return existing;
+  } catch {
+    // Fall through and create a new ID.
+  }
+
+  const id = createId();
+  await saveAnonymousId(storage, id);
+  return id;
+}
+
+/**
+ * Persist `id` as the anonymous ID for this install (used by
+ * `reset()` to rotate it).
+ *
+ * @internal
+ */
+export async function saveAnonymousId(storage: StorageAdapter, id: string): Promise<void> {
+  try {
+    await storage.setItem(ANONYMOUS_ID_KEY, id);
+  } catch {
+    // Non-fatal – the ID is still used for this launch.
+  }
+}
@@ -0,0 +1,63 @@
+import { Buffer } from 'buffer';
+import { decode, encode } from 'jpeg-js';
+import { base64ToBytes, bytesToBase64 } from './base64';
+
+// ── Types ─────────────────────────────────────────────────────────────
+
+/**
+ * A decoded image as tightly packed RGBA pixels (4 bytes per pixel,
+ * row-major, top-left origin).
+ */
+export interface RgbaImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+// ── Codec ─────────────────────────────────────────────────────────────
+
+/**
+ * Decode a base-64 JPEG (as returned by `captureRef`) into RGBA pixels.
+ *
+ * Pure JS — no native module involved.
+ *
+ * @internal
+ */
+export function decodeJpeg(base64: string): RgbaImage {
+  const { width, height, data } = decode(base64ToBytes(base64), {
+    useTArray: true,
+    formatAsRGBA: true,
+  });
+  return { width, height, data };
+}
+
+/**
+ * Encode RGBA pixels as a base-64 JPEG.
+ *
+ * @param quality  JPEG quality `0` – `1` (same scale as `imageQuality`).
+ *
+ * @internal
+ */
+export function encodeJpeg(image: RgbaImage, quality: number): string {
+  const { data } = withBuffer(() => encode(image, Math.max(1, Math.round(quality * 100))));
+  return bytesToBase64(data);
+}
+
+/**
+ * Call `run` with a global `Buffer` in place.  `jpeg-js`'s encoder returns its
+ * output through the global `Buffer`, which React Native does not
+ * provide, and has no option to pass one in.  If the app has none,
+ * the pure-JS `buffer` package's is installed for the duration of the
+ * (synchronous) call only, so the app never sees it.
+ */
+function withBuffer<T>(run: () => T): T {
+  const g = globalThis as { Buffer?: unknown };
+  if (typeof g.Buffer !== 'undefined') return run();
+
+  g.Buffer = Buffer;
+  try {
+    return run();
+  } finally {
+    delete g.Buffer;
+  }
+}
@@ -23,15 +23,30 @@
  * | Export                     | Kind       | Purpose                                         |
  * |----------------------------|------------|--------------------------------------------------|
  * | `SessionCaptureProvider`   | Component  | Root provider — wrap your app in this            |
- * | `useSessionCapture`        | Hook       | Access context (manager, identify, isActive)     |
+ * | `useSessionCapture`        | Hook       | Access context (identify, pause, captureNow, …)  |
  * | `NavigationTracker`        | Component  | Tracks screen transitions                        |
  * | `TrackedPressable`         | Component  | Enriched tap tracking (label, category)          |
+ * | `TrackedTextInput`         | Component  | Form field tracking (focus, blur, errors)        |
  * | `TrackedScrollView`        | Component  | Screenshot on meaningful scroll                  |
+ * | `SessionCaptureMask`       | Component  | Hide sensitive content in captured frames        |
  * | `CaptureManager`           | Class      | Low-level capture engine                         |
  * | `shouldSample`             | Function   | Deterministic sampling check                     |
  * | `installGlobalPressCapture`| Function   | Auto-capture all pressable taps                  |
+ * | `registerPressableType`    | Function   | Auto-capture taps on another component type      |
+ * | `getGlobalCaptureStatus`   | Function   | Self-test: is press auto-capture effective?      |
+ * | `installGlobalInputCapture`| Function   | Auto-capture all text field interactions         |
+ * | `track`                    | Function   | Record a business event in the timeline          |
  * | `emitTrackingEvent`        | Function   | Emit a custom event onto the bus                 |
  * | `onTrackingEvent`          | Function   | Subscribe to all tracking events                 |
+ * | `setCurrentScreen`         | Function   | Set the screen events are attributed to          |
+ * | `createMemoryStorage`      | Function   | In-memory storage adapter (tests)                |
+ * | `createHttpTransport`      | Function   | Default upload transport, customisable           |
+ * | `createMemoryTransport`    | Function   | Collect payloads in memory (tests)               |
+ * | `createFileTransport`      | Function   | Write payloads to disk (debugging)               |
+ * | `TileDecoder`              | Class      | Reference decoder for tile-encoded frames        |
+ * | `decryptPayload`           | Function   | Decrypt frames of an encrypted payload (backend) |
+ * | `generateEncryptionKeyPair`| Function   | Key pair for `encryptionPublicKey`               |
+ * | `reconstructFrames`        | Function   | Rebuild full JPEG frames from `tileFrames`       |
  *
  * @packageDocumentation
  */
@@ -44,6 +59,9 @@ export type { SessionCaptureProviderProps } from './SessionCaptureProvider';
 export { TrackedPressable } from './TrackedPressable';
 export type { TrackedPressableProps } from './TrackedPressable';
 
+export { TrackedTextInput } from './TrackedTextInput';
+export type { TrackedTextInputProps } from './TrackedTextInput';
+
 export {
   TrackedScrollView,
   DEFAULT_SCROLL_THRESHOLD,
@@ -52,6 +70,9 @@ export type { TrackedScrollViewProps } from './TrackedScrollView';
 
 export { NavigationTracker } from './NavigationTracker';
 
+export { SessionCaptureMask } from './SessionCaptureMask';
+export type { SessionCaptureMaskProps } from './SessionCaptureMask';
+
 // ── Hooks ─────────────────────────────────────────────────────────────
 
 export { useSessionCapture } from './useSessionCapture';
@@ -59,18 +80,55 @@ export { useSessionCapture } from './useSessionCapture';
 // ── Utilities ─────────────────────────────────────────────────────────
 
 export { shouldSample } from './sampler';
+export type { SampleOptions } from './sampler';
 
 export { CaptureManager } from './captureManager';
 
-export { installGlobalPressCapture } from './globalPressCapture';
+export {
+  installGlobalPressCapture,
+  registerPressableType,
+  getGlobalCaptureStatus,
+} from './globalPressCapture';
+export type { PressableTypeOptions, GlobalCaptureStatus } from './globalPressCapture';
+export type { ElementFactory } from './elementInterceptor';
+
+export { installGlobalInputCapture } from './globalInputCapture';
+export type { GlobalInputCaptureOptions } from './globalInputCapture';
+
+export { emitTrackingEvent, onTrackingEvent, track } from './trackingBus';
+
+export { setCurrentScreen, getCurrentScreen } from './screenState';
+export type { ScreenContext } from './screenState';
 
-export { emitTrackingEvent, onTrackingEvent } from './trackingBus';
+export { createMemoryStorage } from './storage';
+export type { StorageAdapter } from './storage';
+
+export { TileDecoder, reconstructFrames } from './tileCodec';
+
+export type { PayloadSerializer, SerializedPayload } from './serializers';
+
+export { decryptPayload, generateEncryptionKeyPair } from './frameEncryption';
+
+export {
+  createHttpTransport,
+  createMemoryTransport,
+  createFileTransport,
+} from './transport';
+export type {
+  Transport,
+  TransportResult,
+  HttpTransportOptions,
+  MemoryTransport,
+  FileTransportOptions,
+} from './transport';
+export type { RgbaImage } from './imageCodec';
 
 // ── Types ─────────────────────────────────────────────────────────────
 
 export type {
   SessionCaptureConfig,
   CapturedFrame,
+  CaptureGap,
   TapEvent,
   ScrollEvent,
   NavigationEvent,
@@ -78,4 +136,26 @@ export type {
   UploadPayload,
   CaptureContextValue,
   TrackingEvent,
+  CustomEvent,
+  InputEvent,
+  GestureEvent,
+  FrustrationSignal,
+  TrackOptions,
+  ScreenAttribution,
+  QueueEvictionPolicy,
+  UploadResult,
+  MaskStyle,
+  FrameDedupMode,
+  FrameEncoding,
+  TileFrame,
+  FrameTile,
+  PayloadFormat,
+  PayloadEncryption,
+  UnchangedFrame,
+  ConsentState,
+  SessionMarker,
+  AliasEvent,
+  SamplingHash,
+  SamplingRule,
+  RemoteConfig,
 } from './types';
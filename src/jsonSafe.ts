@@ -0,0 +1,69 @@
+// ── Sanitising ────────────────────────────────────────────────────────
+
+/** Marks a value that JSON cannot represent and must be left out. */
+const DROP = Symbol('drop');
+
+function toSafeValue(value: unknown, ancestors: object[]): unknown {
+  if (value === null || typeof value === 'string' || typeof value === 'boolean') return value;
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'object') return DROP; // bigint, function, symbol, undefined
+
+  if (ancestors.includes(value)) return DROP;
+  ancestors.push(value);
+  try {
+    const toJSON = read(value, 'toJSON');
+    if (typeof toJSON === 'function') {
+      try {
+        return toSafeValue(toJSON.call(value), ancestors);
+      } catch {
+        return DROP;
+      }
+    }
+
+    if (Array.isArray(value)) {
+      // JSON turns unrepresentable array items into `null`.
+      return value.map((item) => {
+        const safe = toSafeValue(item, ancestors);
+        return safe === DROP ? null : safe;
+      });
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const key of Object.keys(value)) {
+      const safe = toSafeValue(read(value, key), ancestors);
+      if (safe !== DROP) result[key] = safe;
+    }
+    return result;
+  } finally {
+    ancestors.pop();
+  }
+}
+
+/** Read a property; a throwing getter reads as `undefined` (dropped). */
+function read(value: object, key: string): unknown {
+  try {
+    return (value as Record<string, unknown>)[key];
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Copy `value` keeping only what `JSON.stringify` can represent.
+ *
+ * Circular references, `BigInt`s, functions, and symbols are dropped
+ * (or become `null` inside arrays, as JSON does), non-finite numbers
+ * become `null`, and `toJSON()` is honoured (e.g. `Date`).  The copy
+ * never throws when serialized, and later mutations of `value` do not
+ * affect it.
+ *
+ * Used for app-supplied event properties, so one bad value can never
+ * break a flush.
+ *
+ * @internal
+ */
+export function toJsonSafe<T extends object>(value: T | undefined): T | undefined {
+  if (value === undefined) return undefined;
+  const safe = toSafeValue(value, []);
+  return safe === DROP ? undefined : (safe as T);
+}
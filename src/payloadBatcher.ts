@@ -0,0 +1,121 @@
+import type { UploadPayload } from './types';
+
+// ── Streams ───────────────────────────────────────────────────────────
+
+/** Keys of {@link UploadPayload} that hold event or frame lists. */
+type StreamKey = {
+  [K in keyof UploadPayload]-?: NonNullable<UploadPayload[K]> extends unknown[] ? K : never;
+}[keyof UploadPayload];
+
+type StreamItem<K extends StreamKey> = NonNullable<UploadPayload[K]>[number];
+
+/**
+ * When each item happened, per stream.  Every list in the payload must
+ * be listed here, so a new stream cannot be forgotten when splitting.
+ */
+const STREAM_TIME: { [K in StreamKey]: (item: StreamItem<K>) => number } = {
+  frames: (frame) => frame.timestamp,
+  tileFrames: (frame) => frame.timestamp,
+  unchangedFrames: (frame) => frame.timestamp,
+  taps: (tap) => tap.timestamp,
+  scrolls: (scroll) => scroll.timestamp,
+  navigations: (nav) => nav.timestamp,
+  gaps: (gap) => gap.start,
+  customEvents: (event) => event.timestamp,
+  inputs: (input) => input.timestamp,
+  gestures: (gesture) => gesture.timestamp,
+  frustrationSignals: (signal) => signal.timestamp,
+  sessionEvents: (marker) => marker.timestamp,
+  aliases: (alias) => alias.timestamp,
+};
+
+const STREAM_KEYS = Object.keys(STREAM_TIME) as StreamKey[];
+
+/**
+ * A payload as built from the buffers, before batch metadata is added.
+ *
+ * @internal
+ */
+export type UnbatchedPayload = Omit<UploadPayload, 'batchId' | 'batchSequence' | 'batchCount'>;
+
+interface TimedItem {
+  key: StreamKey;
+  item: unknown;
+  time: number;
+  bytes: number;
+}
+
+// ── Splitting ─────────────────────────────────────────────────────────
+
+/** Random ID shared by the chunks of one flush. */
+function batchId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * Split a payload into chunks whose serialized JSON stays within
+ * `maxBytes`.
+ *
+ * All frames and events are merged into a single timeline and packed
+ * into chunks in time order, so events travel with the frames around
+ * them.  Every chunk keeps the payload's metadata (`sessionId`,
+ * `userId`, device, consent, …) and is stamped with a shared
+ * `batchId`, its `batchSequence` (0-based) and the `batchCount`, so
+ * the backend can reassemble the batch in order.
+ *
+ * A single item larger than `maxBytes` (e.g. one huge frame) is sent
+ * on its own rather than dropped.  `maxBytes <= 0` disables splitting.
+ *
+ * @internal
+ */
+export function splitPayload(payload: UnbatchedPayload, maxBytes: number): UploadPayload[] {
+  const batch = { batchId: batchId(), batchSequence: 0, batchCount: 1 };
+  if (maxBytes <= 0 || JSON.stringify(payload).length <= maxBytes) {
+    return [{ ...payload, ...batch }];
+  }
+
+  const empty: UploadPayload = { ...payload, ...batch };
+  for (const key of STREAM_KEYS) {
+    if (payload[key]) (empty as unknown as Record<StreamKey, unknown[]>)[key] = [];
+  }
+  // Room for the longer sequence numbers of later chunks.
+  const baseBytes = JSON.stringify(empty).length + 16;
+
+  const timeline: TimedItem[] = [];
+  for (const key of STREAM_KEYS) {
+    const time = STREAM_TIME[key] as (item: unknown) => number;
+    for (const item of (payload[key] ?? []) as unknown[]) {
+      // +1 for the separating comma.
+      timeline.push({ key, item, time: time(item), bytes: JSON.stringify(item).length + 1 });
+    }
+  }
+  // Stable sort: items with equal timestamps keep their stream order.
+  timeline.sort((a, b) => a.time - b.time);
+
+  const chunks: TimedItem[][] = [];
+  let current: TimedItem[] = [];
+  let size = baseBytes;
+  for (const entry of timeline) {
+    if (current.length > 0 && size + entry.bytes > maxBytes) {
+      chunks.push(current);
+      current = [];
+      size = baseBytes;
+    }
+    current.push(entry);
+    size += entry.bytes;
+  }
+  if (current.length > 0) chunks.push(current);
+
+  return chunks.map((items, index) => {
+    const chunk = {
+      ...empty,
+      batchSequence: index,
+      batchCount: chunks.length,
+    } as unknown as Record<StreamKey, unknown[]>;
+    for (const key of STREAM_KEYS) {
+      if (payload[key]) chunk[key] = [];
+    }
+    for (const { key, item } of items) chunk[key].push(item);
+    return chunk as unknown as UploadPayload;
+  });
+}
@@ -0,0 +1,263 @@
+import { TextInput } from 'react-native';
+import type { RefObject } from 'react';
+import type { View } from 'react-native';
+import { addElementTransform } from './elementInterceptor';
+import { decodeJpeg, encodeJpeg } from './imageCodec';
+import type { RgbaImage } from './imageCodec';
+import type { MaskStyle } from './types';
+
+// ── Types ─────────────────────────────────────────────────────────────
+
+/** Anything that can report its on-screen rectangle (host components). */
+interface Measurable {
+  measureInWindow(
+    callback: (x: number, y: number, width: number, height: number) => void,
+  ): void;
+}
+
+/**
+ * A masked region relative to the captured root view, normalised to
+ * `0` – `1` so it can be applied to a screenshot of any resolution.
+ *
+ * @internal
+ */
+export interface MaskRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// ── Registry ──────────────────────────────────────────────────────────
+
+/** Host instances currently marked as sensitive. */
+const maskedInstances = new Set<Measurable>();
+
+/** Extra margin (in layout points) around every mask to hide anti-aliased edges. */
+const MASK_PADDING = 2;
+
+/** Side length (in image pixels) of the blocks used by the `'blur'` style. */
+const BLUR_BLOCK_SIZE = 16;
+
+/**
+ * Create a callback ref that registers the attached host instance as a
+ * privacy mask for as long as it is mounted, then forwards to
+ * `forwardTo` (a callback or object ref supplied by the app).
+ *
+ * @internal
+ */
+export function createMaskRef(forwardTo?: unknown): (instance: unknown) => void {
+  let current: Measurable | null = null;
+
+  return (instance: unknown) => {
+    if (current) maskedInstances.delete(current);
+    current =
+      instance && typeof (instance as Measurable).measureInWindow === 'function'
+        ? (instance as Measurable)
+        : null;
+    if (current) maskedInstances.add(current);
+
+    if (typeof forwardTo === 'function') {
+      forwardTo(instance);
+    } else if (forwardTo && typeof forwardTo === 'object' && 'current' in forwardTo) {
+      (forwardTo as { current: unknown }).current = instance;
+    }
+  };
+}
+
+/** Whether any masked view is currently mounted. */
+export function hasMasks(): boolean {
+  return maskedInstances.size > 0;
+}
+
+// ── Prop-based masking ───────────────────────────────────────────────
+
+let installed = false;
+
+/**
+ * Enable the `sessionCaptureMask` prop on any host component (`View`,
+ * `Text`, `Image`, `TextInput`, …) and, optionally, automatic masking
+ * of every `<TextInput secureTextEntry>`.
+ *
+ * The prop is stripped before the element reaches React Native and
+ * replaced with a ref that registers the view as a mask.  Custom
+ * components only support it if they forward their ref to a host view.
+ *
+ * Called automatically by `<SessionCaptureProvider>`.  Safe to call
+ * multiple times — only installs once.
+ *
+ * @internal
+ */
+export function installMaskCapture(options: { maskSecureTextEntry: boolean }): void {
+  if (installed) return;
+  installed = true;
+
+  // Cache composed refs per original ref so React doesn't detach and
+  // re-attach them on every render.
+  const composedRefs = new WeakMap<object, (instance: unknown) => void>();
+
+  addElementTransform((type, props) => {
+    const explicit = props.sessionCaptureMask;
+    const secure =
+      options.maskSecureTextEntry && type === TextInput && props.secureTextEntry === true;
+
+    if (explicit === undefined && !secure) return props;
+
+    const { sessionCaptureMask: _, ...rest } = props;
+    // An explicit `sessionCaptureMask={false}` opts a secure field out.
+    if (explicit === false || (!explicit && !secure)) return rest;
+
+    const original = rest.ref;
+    let ref: (instance: unknown) => void;
+    if (original && (typeof original === 'object' || typeof original === 'function')) {
+      ref = composedRefs.get(original as object) ?? createMaskRef(original);
+      composedRefs.set(original as object, ref);
+    } else {
+      ref = createMaskRef();
+    }
+
+    return { ...rest, ref };
+  });
+}
+
+// ── Measurement ───────────────────────────────────────────────────────
+
+function measure(target: Measurable): Promise<MaskRect | null> {
+  return new Promise((resolve) => {
+    try {
+      target.measureInWindow((x, y, width, height) => {
+        resolve(width > 0 && height > 0 ? { x, y, width, height } : null);
+      });
+    } catch {
+      // Unmounted between registration and measurement.
+      resolve(null);
+    }
+  });
+}
+
+/**
+ * Measure every registered mask relative to the captured root view.
+ *
+ * Masks are measured at capture time (not cached from `onLayout`) so
+ * they stay accurate inside scroll views and animated containers.
+ * Rectangles outside the root are discarded.
+ *
+ * Rejects if the root or any mask cannot be measured (not mounted,
+ * `measureInWindow` throws, or it reports an empty size) — callers
+ * must then discard the frame, since it cannot be masked reliably.
+ *
+ * @internal
+ */
+export async function measureMaskRects(
+  rootRef: RefObject<View | null>,
+): Promise<MaskRect[]> {
+  if (maskedInstances.size === 0) return [];
+  const root = rootRef.current as unknown as Measurable | null;
+  if (!root) throw new Error('Capture root is not mounted');
+
+  const [rootRect, ...rects] = await Promise.all([
+    measure(root),
+    ...Array.from(maskedInstances, measure),
+  ]);
+  if (!rootRect) throw new Error('Capture root cannot be measured');
+
+  const result: MaskRect[] = [];
+  for (const rect of rects) {
+    if (!rect) throw new Error('Mask cannot be measured');
+    const left = Math.max(0, rect.x - MASK_PADDING - rootRect.x);
+    const top = Math.max(0, rect.y - MASK_PADDING - rootRect.y);
+    const right = Math.min(rootRect.width, rect.x + rect.width + MASK_PADDING - rootRect.x);
+    const bottom = Math.min(rootRect.height, rect.y + rect.height + MASK_PADDING - rootRect.y);
+    if (right <= left || bottom <= top) continue;
+
+    result.push({
+      x: left / rootRect.width,
+      y: top / rootRect.height,
+      width: (right - left) / rootRect.width,
+      height: (bottom - top) / rootRect.height,
+    });
+  }
+  return result;
+}
+
+// ── Pixel operations ──────────────────────────────────────────────────
+
+/** Convert a normalised rect to clamped integer pixel bounds. */
+function toPixels(rect: MaskRect, image: RgbaImage) {
+  return {
+    x0: Math.max(0, Math.floor(rect.x * image.width)),
+    y0: Math.max(0, Math.floor(rect.y * image.height)),
+    x1: Math.min(image.width, Math.ceil((rect.x + rect.width) * image.width)),
+    y1: Math.min(image.height, Math.ceil((rect.y + rect.height) * image.height)),
+  };
+}
+
+function blackout(image: RgbaImage, rect: MaskRect): void {
+  const { x0, y0, x1, y1 } = toPixels(rect, image);
+  for (let y = y0; y < y1; y++) {
+    const row = y * image.width * 4;
+    for (let x = x0; x < x1; x++) {
+      const i = row + x * 4;
+      image.data[i] = 0;
+      image.data[i + 1] = 0;
+      image.data[i + 2] = 0;
+      image.data[i + 3] = 255;
+    }
+  }
+}
+
+/** Coarse pixelation — each block is replaced by its average colour. */
+function pixelate(image: RgbaImage, rect: MaskRect): void {
+  const { x0, y0, x1, y1 } = toPixels(rect, image);
+  for (let by = y0; by < y1; by += BLUR_BLOCK_SIZE) {
+    for (let bx = x0; bx < x1; bx += BLUR_BLOCK_SIZE) {
+      const ey = Math.min(by + BLUR_BLOCK_SIZE, y1);
+      const ex = Math.min(bx + BLUR_BLOCK_SIZE, x1);
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      for (let y = by; y < ey; y++) {
+        for (let x = bx; x < ex; x++) {
+          const i = (y * image.width + x) * 4;
+          r += image.data[i];
+          g += image.data[i + 1];
+          b += image.data[i + 2];
+        }
+      }
+      const n = (ey - by) * (ex - bx);
+      for (let y = by; y < ey; y++) {
+        for (let x = bx; x < ex; x++) {
+          const i = (y * image.width + x) * 4;
+          image.data[i] = r / n;
+          image.data[i + 1] = g / n;
+          image.data[i + 2] = b / n;
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Black out or pixelate the given regions of a base-64 JPEG and
+ * re-encode it.
+ *
+ * Throws if the image cannot be decoded — callers must then discard
+ * the frame rather than keep the unmasked original.
+ *
+ * @internal
+ */
+export function applyMasks(
+  base64: string,
+  rects: MaskRect[],
+  style: MaskStyle,
+  quality: number,
+): string {
+  if (rects.length === 0) return base64;
+
+  const image = decodeJpeg(base64);
+  for (const rect of rects) {
+    if (style === 'blur') pixelate(image, rect);
+    else blackout(image, rect);
+  }
+  return encodeJpeg(image, quality);
+}
@@ -0,0 +1,51 @@
+// ── Secure random ─────────────────────────────────────────────────────
+
+/**
+ * Cryptographically secure random bytes.
+ *
+ * Uses `crypto.getRandomValues` when the runtime provides it (Hermes
+ * with `react-native-get-random-values`, the web, tests), otherwise
+ * `expo-crypto`, resolved lazily so it stays an optional dependency.
+ *
+ * Throws if neither is available — callers that need secrecy must
+ * not fall back to `Math.random`.
+ *
+ * @internal
+ */
+export function secureRandomBytes(length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+
+  const webCrypto = (globalThis as { crypto?: { getRandomValues?: (a: Uint8Array) => void } })
+    .crypto;
+  if (typeof webCrypto?.getRandomValues === 'function') {
+    webCrypto.getRandomValues(bytes);
+    return bytes;
+  }
+
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const ExpoCrypto = require('expo-crypto');
+    if (typeof ExpoCrypto?.getRandomBytes === 'function') {
+      return Uint8Array.from(ExpoCrypto.getRandomBytes(length));
+    }
+  } catch {
+    // Not installed – fall through.
+  }
+
+  throw new Error('No secure random source: install expo-crypto');
+}
+
+/**
+ * Random bytes for values that must be unique but not secret (e.g.
+ * request nonces).  Prefers a secure source and falls back to
+ * `Math.random`.
+ *
+ * @internal
+ */
+export function randomBytes(length: number): Uint8Array {
+  try {
+    return secureRandomBytes(length);
+  } catch {
+    return Uint8Array.from({ length }, () => Math.floor(Math.random() * 256));
+  }
+}
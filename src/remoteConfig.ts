@@ -0,0 +1,179 @@
+import { STORAGE_KEY_PREFIX } from './storage';
+import type { StorageAdapter } from './storage';
+import type { RemoteConfig, SamplingRule } from './types';
+
+// ── Types ─────────────────────────────────────────────────────────────
+
+/**
+ * A remote config document as cached on the device.
+ *
+ * @internal
+ */
+export interface CachedRemoteConfig {
+  config: RemoteConfig;
+  /** Unix timestamp (ms) when the document was fetched. */
+  fetchedAt: number;
+}
+
+// ── Constants ─────────────────────────────────────────────────────────
+
+const CONFIG_KEY = `${STORAGE_KEY_PREFIX}remote-config`;
+
+type NumberKey =
+  | 'samplingRate'
+  | 'maxFrames'
+  | 'throttleMs'
+  | 'imageQuality'
+  | 'flushIntervalMs'
+  | 'periodicCaptureMs'
+  | 'idleTimeoutMs';
+
+/**
+ * Accepted range per numeric key.  Values outside it are clamped.
+ * With `zeroDisables`, `0` is kept as is, because it switches the
+ * feature off rather than running it as often as possible.
+ */
+const NUMBER_RANGES: Record<NumberKey, { min: number; max: number; zeroDisables?: boolean }> = {
+  samplingRate: { min: 0, max: 1 },
+  imageQuality: { min: 0, max: 1 },
+  maxFrames: { min: 0, max: Number.MAX_SAFE_INTEGER },
+  throttleMs: { min: 0, max: 60_000 },
+  flushIntervalMs: { min: 1_000, max: 60 * 60_000 },
+  periodicCaptureMs: { min: 500, max: 60 * 60_000, zeroDisables: true },
+  idleTimeoutMs: { min: 1_000, max: 60 * 60_000, zeroDisables: true },
+};
+
+const NUMBER_KEYS = Object.keys(NUMBER_RANGES) as NumberKey[];
+
+/** Sampling rule conditions, each a list of strings. */
+const RULE_LIST_KEYS = ['userIds', 'screens', 'appVersions', 'eventCategories'] as const;
+
+// ── Validation ────────────────────────────────────────────────────────
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+/**
+ * Validate one sampling rule.  Returns `null` if any field has the
+ * wrong type or `rate` is outside `[0, 1]` — a half-understood rule
+ * could sample a very different cohort, so it is dropped entirely.
+ */
+function sanitizeSamplingRule(raw: unknown): SamplingRule | null {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null;
+  const doc = raw as Record<string, unknown>;
+  const rule: SamplingRule = {};
+
+  for (const key of RULE_LIST_KEYS) {
+    if (doc[key] === undefined) continue;
+    const value = doc[key];
+    if (!isStringArray(value)) return null;
+    rule[key] = value;
+  }
+  if (doc.rate !== undefined) {
+    const rate = doc.rate;
+    if (typeof rate !== 'number' || !Number.isFinite(rate) || rate < 0 || rate > 1) return null;
+    rule.rate = rate;
+  }
+  return rule;
+}
+
+/**
+ * Keep only known keys with the expected types and ranges, so a
+ * malformed or newer config document can never inject unexpected
+ * values.
+ *
+ * - Numbers are clamped into their accepted range (e.g. `samplingRate`
+ *   and `imageQuality` into `[0, 1]`, `flushIntervalMs` to at least
+ *   one second); non-numbers are ignored.
+ * - Sampling rules with a malformed field are dropped.
+ *
+ * Cached documents go through this again when they are loaded, so a
+ * bad document cached by an earlier version is repaired too.
+ *
+ * @internal
+ */
+export function sanitizeRemoteConfig(raw: unknown): RemoteConfig {
+  const config: RemoteConfig = {};
+  if (!raw || typeof raw !== 'object') return config;
+  const doc = raw as Record<string, unknown>;
+
+  if (typeof doc.enabled === 'boolean') config.enabled = doc.enabled;
+  for (const key of NUMBER_KEYS) {
+    const value = doc[key];
+    if (typeof value !== 'number' || Number.isNaN(value)) continue;
+    const { min, max, zeroDisables } = NUMBER_RANGES[key];
+    config[key] = zeroDisables && value === 0 ? 0 : Math.min(max, Math.max(min, value));
+  }
+  if (Array.isArray(doc.samplingRules)) {
+    config.samplingRules = doc.samplingRules
+      .map(sanitizeSamplingRule)
+      .filter((rule): rule is SamplingRule => rule !== null);
+  }
+  return config;
+}
+
+// ── Cache ─────────────────────────────────────────────────────────────
+
+/**
+ * Read the config document cached by a previous fetch, regardless of
+ * its age.  Returns `null` if there is none.
+ *
+ * @internal
+ */
+export async function loadCachedRemoteConfig(
+  storage: StorageAdapter,
+): Promise<CachedRemoteConfig | null> {
+  try {
+    const raw = await storage.getItem(CONFIG_KEY);
+    if (!raw) return null;
+    const cached = JSON.parse(raw) as CachedRemoteConfig;
+    if (typeof cached?.fetchedAt !== 'number') return null;
+    return { config: sanitizeRemoteConfig(cached.config), fetchedAt: cached.fetchedAt };
+  } catch {
+    return null;
+  }
+}
+
+/** @internal */
+export async function saveRemoteConfig(
+  storage: StorageAdapter,
+  cached: CachedRemoteConfig,
+): Promise<void> {
+  try {
+    await storage.setItem(CONFIG_KEY, JSON.stringify(cached));
+  } catch {
+    // Non-fatal – the config is fetched again on the next launch.
+  }
+}
+
+// ── Fetch ─────────────────────────────────────────────────────────────
+
+/**
+ * Fetch the config document from `{endpointUrl}/config`.
+ *
+ * Authenticated with the same `x-api-key` header as uploads.  Returns
+ * `null` on any network or HTTP error so callers fall back to the
+ * cached document or the provider props.
+ *
+ * @internal
+ */
+export async function fetchRemoteConfig(
+  endpointUrl: string,
+  apiKey: string,
+): Promise<RemoteConfig | null> {
+  try {
+    const url = endpointUrl.replace(/\/+$/, '') + '/config';
+    const response = await fetch(url, {
+      method: 'GET',
+      headers: {
+        Accept: 'application/json',
+        'x-api-key': apiKey,
+      },
+    });
+    if (!response.ok) return null;
+    return sanitizeRemoteConfig(await response.json());
+  } catch {
+    return null;
+  }
+}
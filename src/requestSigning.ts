@@ -0,0 +1,202 @@
+import { base64ToBytes } from './base64';
+import { utf8Bytes } from './hash';
+import { hmacSha256, sha256, toHex } from './hmac';
+import { randomBytes } from './random';
+import { parseRetryAfter } from './uploadPolicy';
+import type { TransportResult } from './transport';
+import type { UploadPayload } from './types';
+
+// ── Types ─────────────────────────────────────────────────────────────
+
+/** A signing key issued by the `/session` handshake. */
+interface SessionKey {
+  keyId: string;
+  key: Uint8Array;
+  /** Unix timestamp (ms) after which the key must not be used. */
+  expiresAt?: number;
+}
+
+/**
+ * Options for the {@link RequestSigner}.
+ *
+ * @internal
+ */
+export interface RequestSignerOptions {
+  /** Full URL of the handshake endpoint. */
+  handshakeUrl: string;
+  /** Headers sent with the handshake (e.g. `x-api-key`). */
+  getHeaders: () => Promise<Record<string, string>>;
+}
+
+/** Refresh keys this long before they expire, to absorb clock skew. */
+const EXPIRY_MARGIN_MS = 30_000;
+
+/** Header names, shared with the backend's verifier. */
+const SIGNATURE_HEADERS = {
+  keyId: 'X-Signature-Key-Id',
+  timestamp: 'X-Signature-Timestamp',
+  nonce: 'X-Signature-Nonce',
+  signature: 'X-Signature',
+} as const;
+
+// ── Signing ───────────────────────────────────────────────────────────
+
+/**
+ * The string that is signed for each request:
+ *
+ * ```
+ * {timestamp}\n{nonce}\n{sessionId}\n{hex(sha256(body))}
+ * ```
+ *
+ * Binding the timestamp and nonce lets the backend reject replays;
+ * binding the session ID stops a key issued for one session from
+ * signing data for another.
+ *
+ * @internal
+ */
+export function canonicalRequest(
+  timestamp: number,
+  nonce: string,
+  sessionId: string,
+  body: string | Uint8Array,
+): Uint8Array {
+  const bodyBytes = typeof body === 'string' ? utf8Bytes(body) : body;
+  return utf8Bytes(`${timestamp}\n${nonce}\n${sessionId}\n${toHex(sha256(bodyBytes))}`);
+}
+
+/**
+ * Signs upload requests with HMAC-SHA256 under a per-session key.
+ *
+ * Keys are requested from the handshake endpoint the first time a
+ * session's payload is sent and kept in memory only — never persisted
+ * — so a key extracted from one device or session is of little use.
+ *
+ * @internal
+ */
+export class RequestSigner {
+  private keys = new Map<string, Promise<SessionKey>>();
+
+  constructor(private opts: RequestSignerOptions) {}
+
+  /**
+   * Signature headers for `body`, or the failed handshake's result if
+   * no key could be obtained.
+   */
+  async sign(
+    payload: UploadPayload,
+    body: string | Uint8Array,
+  ): Promise<{ headers: Record<string, string> } | { failure: TransportResult }> {
+    let sessionKey: SessionKey;
+    try {
+      sessionKey = await this.keyFor(payload);
+    } catch (err) {
+      return { failure: err instanceof HandshakeError ? err.result : toFailure(err) };
+    }
+
+    const timestamp = Date.now();
+    const nonce = toHex(randomBytes(16));
+    const signature = hmacSha256(
+      sessionKey.key,
+      canonicalRequest(timestamp, nonce, payload.sessionId, body),
+    );
+
+    return {
+      headers: {
+        [SIGNATURE_HEADERS.keyId]: sessionKey.keyId,
+        [SIGNATURE_HEADERS.timestamp]: String(timestamp),
+        [SIGNATURE_HEADERS.nonce]: nonce,
+        [SIGNATURE_HEADERS.signature]: toHex(signature),
+      },
+    };
+  }
+
+  /** Forget the key for `sessionId`, e.g. after the backend rejected it. */
+  invalidate(sessionId: string): void {
+    this.keys.delete(sessionId);
+  }
+
+  private async keyFor(payload: UploadPayload): Promise<SessionKey> {
+    const cached = this.keys.get(payload.sessionId);
+    if (cached) {
+      try {
+        const key = await cached;
+        if (!key.expiresAt || key.expiresAt - EXPIRY_MARGIN_MS > Date.now()) return key;
+      } catch {
+        // Failed handshake – request a new key below.
+      }
+    }
+
+    const pending = this.handshake(payload);
+    this.keys.set(payload.sessionId, pending);
+    pending.catch(() => {
+      if (this.keys.get(payload.sessionId) === pending) this.keys.delete(payload.sessionId);
+    });
+    return pending;
+  }
+
+  /**
+   * `POST {handshakeUrl}` with the session metadata.  Expects
+   * `{ keyId, key, expiresAt? }` in response, `key` being base-64.
+   */
+  private async handshake(payload: UploadPayload): Promise<SessionKey> {
+    let response: Response;
+    try {
+      response = await fetch(this.opts.handshakeUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(await this.opts.getHeaders()),
+        },
+        body: JSON.stringify({
+          sessionId: payload.sessionId,
+          userId: payload.userId,
+          device: payload.device,
+          appVersion: payload.appVersion,
+        }),
+      });
+    } catch (err) {
+      throw new HandshakeError(toFailure(err));
+    }
+
+    if (response.status < 200 || response.status >= 300) {
+      // Only an auth failure keeps its status.  Any other status says
+      // nothing about the payload — which was never sent — so it must
+      // not be classified as an upload response (a `400` would drop
+      // it, a `413` would split it): report it as retryable instead.
+      const isAuthFailure = response.status === 401 || response.status === 403;
+      throw new HandshakeError({
+        ...(isAuthFailure && { status: response.status }),
+        retryAfter: parseRetryAfter(response.headers?.get('Retry-After')),
+        error: `Session handshake failed with status ${response.status}`,
+      });
+    }
+
+    const json = (await response.json()) as Partial<{
+      keyId: string;
+      key: string;
+      expiresAt: number;
+    }>;
+    if (typeof json?.keyId !== 'string' || typeof json.key !== 'string') {
+      // Retryable: a misbehaving handshake must not drop queued data.
+      throw new HandshakeError({ error: 'Malformed session handshake response' });
+    }
+    return {
+      keyId: json.keyId,
+      key: base64ToBytes(json.key),
+      expiresAt: typeof json.expiresAt === 'number' ? json.expiresAt : undefined,
+    };
+  }
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────
+
+/** A handshake failure, carrying the result to report for the upload. */
+class HandshakeError extends Error {
+  constructor(readonly result: TransportResult) {
+    super(result.error);
+  }
+}
+
+function toFailure(err: unknown): TransportResult {
+  return { error: err instanceof Error ? err.message : String(err) };
+}
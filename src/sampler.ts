@@ -1,3 +1,57 @@
+import { hashString } from './hash';
+import type { SamplingHash } from './types';
+
+/**
+ * Options for {@link shouldSample}.
+ */
+export interface SampleOptions {
+  /**
+   * Per-project salt mixed into the hash.
+   *
+   * Different salts put the same user into independent buckets, so
+   * separate projects or experiments sample different cohorts.
+   *
+   * @default ''
+   */
+  salt?: string;
+
+  /**
+   * Hash used to bucket users.
+   *
+   * - `'fnv1a'`  — uniform 32-bit hash (default).
+   * - `'legacy'` — the original character-code sum, kept so apps
+   *   upgrading from earlier versions can keep every user in the
+   *   bucket they were already in.  Ignores `salt` and only has 1 %
+   *   granularity.
+   *
+   * Earlier versions always used the legacy sum, so switching to
+   * `'fnv1a'` re-buckets every existing user.
+   *
+   * @default 'fnv1a'
+   */
+  hash?: SamplingHash;
+}
+
+/**
+ * Map a user ID to a stable position in `[0, 1)`.
+ *
+ * @internal
+ */
+export function sampleBucket(userId: string, options: SampleOptions = {}): number {
+  const { salt = '', hash = 'fnv1a' } = options;
+
+  if (hash === 'legacy') {
+    const sum = Array.from(userId).reduce(
+      (acc, char) => acc + char.charCodeAt(0),
+      0,
+    );
+    return (sum % 100) / 100;
+  }
+
+  const input = salt ? `${salt}:${userId}` : userId;
+  return hashString(input) / 2 ** 32;
+}
+
 /**
  * Deterministic sampling based on `userId`.
  *
@@ -6,29 +60,31 @@
  * This avoids inconsistent experiences across sessions and ensures
  * that session data for a sampled user is always complete.
  *
- * The implementation uses a simple but stable hash (sum of character
- * codes) to map the user ID to a value between 0 and 1.
+ * The user ID (prefixed with the optional `salt`) is hashed as UTF-8
+ * with 32-bit FNV-1a plus a MurmurHash3 finaliser and mapped uniformly
+ * to `[0, 1)`.  This gives ~2.3 × 10⁻¹⁰ granularity, so fractional
+ * rates well below 1 % (e.g. `0.0005`) are honoured.
  *
- * @param userId  Stable user identifier (anonymous or identified).
- * @param rate    Sampling rate `0` – `1`  (e.g. `0.1` = 10 %).
- * @returns       `true` if the user should be captured.
+ * @param userId   Stable user identifier (anonymous or identified).
+ * @param rate     Sampling rate `0` – `1`  (e.g. `0.1` = 10 %).
+ * @param options  Optional salt and hash selection.
+ * @returns        `true` if the user should be captured.
  *
  * @example
  * ```ts
  * shouldSample('user-42', 0.1);  // always returns the same boolean
  * shouldSample('user-42', 1.0);  // always true
  * shouldSample('user-42', 0);    // always false
+ * shouldSample('user-42', 0.001, { salt: 'checkout-study' });
  * ```
  */
-export function shouldSample(userId: string, rate: number): boolean {
+export function shouldSample(
+  userId: string,
+  rate: number,
+  options?: SampleOptions,
+): boolean {
   if (rate <= 0) return false;
   if (rate >= 1) return true;
 
-  // Simple but stable hash – sum of char codes.
-  const hash = Array.from(userId).reduce(
-    (acc, char) => acc + char.charCodeAt(0),
-    0,
-  );
-
-  return (hash % 100) / 100 < rate;
+  return sampleBucket(userId, options) < rate;
 }
@@ -0,0 +1,80 @@
+import { shouldSample } from './sampler';
+import type { SampleOptions } from './sampler';
+import type { SamplingRule } from './types';
+
+// ── Types ─────────────────────────────────────────────────────────────
+
+/**
+ * Everything the rules engine knows about the current session.
+ *
+ * `screens` and `eventCategories` only grow during a session, which
+ * makes a rule-based "yes" sticky: once a session is sampled in by a
+ * rule, it stays sampled until the session ends.
+ *
+ * @internal
+ */
+export interface SamplingContext {
+  userId: string;
+  appVersion: string;
+  /** Screens visited in this session. */
+  screens: ReadonlySet<string>;
+  /** Tracking event categories fired in this session. */
+  eventCategories: ReadonlySet<string>;
+}
+
+// ── Matching ──────────────────────────────────────────────────────────
+
+/**
+ * A rule matches when **every** condition it specifies matches; a
+ * condition matches when **any** of its values does.  A rule with no
+ * conditions matches everything.
+ */
+function matchesRule(rule: SamplingRule, context: SamplingContext): boolean {
+  if (rule.userIds && !rule.userIds.includes(context.userId)) return false;
+  if (rule.appVersions && !rule.appVersions.includes(context.appVersion)) return false;
+  if (rule.screens && !rule.screens.some((s) => context.screens.has(s))) return false;
+  if (
+    rule.eventCategories &&
+    !rule.eventCategories.some((c) => context.eventCategories.has(c))
+  ) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Decide whether the session should be captured.
+ *
+ * Rules are evaluated in order; the first matching rule's `rate`
+ * (default `1`) is used.  If no rule matches, `baseRate` applies.
+ * Either way the final decision is deterministic per user via
+ * {@link shouldSample}.
+ *
+ * @internal
+ */
+export function evaluateSampling(
+  rules: readonly SamplingRule[],
+  context: SamplingContext,
+  baseRate: number,
+  options?: SampleOptions,
+): boolean {
+  const rule = rules.find((r) => matchesRule(r, context));
+  return shouldSample(context.userId, rule ? rule.rate ?? 1 : baseRate, options);
+}
+
+/**
+ * Whether any rule references `screen` / `category` — used to avoid
+ * re-evaluating sampling for values no rule cares about.
+ *
+ * @internal
+ */
+export function isRelevantToRules(
+  rules: readonly SamplingRule[],
+  value: { screen?: string; category?: string },
+): boolean {
+  return rules.some(
+    (r) =>
+      (value.screen !== undefined && !!r.screens?.includes(value.screen)) ||
+      (value.category !== undefined && !!r.eventCategories?.includes(value.category)),
+  );
+}
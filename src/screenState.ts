@@ -0,0 +1,69 @@
+import type { ScreenAttribution } from './types';
+
+// ── Types ─────────────────────────────────────────────────────────────
+
+/**
+ * The screen the user is currently looking at.
+ *
+ * Maintained by `<NavigationTracker>`; apps without React Navigation
+ * can set it themselves with {@link setCurrentScreen}.
+ */
+export interface ScreenContext {
+  /** Name of the deepest active route (e.g. `"Product"`). */
+  name: string;
+  /**
+   * Names of all active routes from the root navigator down, joined
+   * with `/` (e.g. `"Tabs/Home/Product"`).  Defaults to `name`.
+   */
+  path?: string;
+  /** Route params allowed by `NavigationTracker.trackedRouteParams`. */
+  params?: Record<string, string | number | boolean>;
+}
+
+// ── State ─────────────────────────────────────────────────────────────
+
+let current: ScreenContext | null = null;
+
+/**
+ * Set the current screen.  Every tap, scroll, custom event, and frame
+ * recorded afterwards is attributed to it until the next call.
+ *
+ * Called by `<NavigationTracker>` on every navigation state change.
+ * Pass `null` to clear the attribution.
+ *
+ * @example
+ * ```ts
+ * // An app with its own router:
+ * router.onChange((route) => setCurrentScreen({ name: route.name }));
+ * ```
+ */
+export function setCurrentScreen(screen: ScreenContext | null): void {
+  current = screen;
+}
+
+/** The current screen, or `null` if none is known. */
+export function getCurrentScreen(): ScreenContext | null {
+  return current;
+}
+
+/**
+ * Fill in missing screen fields of `item` from the current screen.
+ *
+ * Fields set explicitly (e.g. `TrackedPressable.tapScreen`) win.  The
+ * current route's path and params are only added when `item` is
+ * attributed to the current screen, so an explicit `screen` never
+ * carries another route's path.
+ *
+ * @internal
+ */
+export function withCurrentScreen<T extends ScreenAttribution>(item: T): T {
+  if (!current) return item;
+  if (item.screen !== undefined && item.screen !== current.name) return item;
+  return {
+    ...item,
+    screen: current.name,
+    screenPath: item.screenPath ?? current.path ?? current.name,
+    ...(item.screenParams === undefined &&
+      current.params !== undefined && { screenParams: current.params }),
+  };
+}
@@ -0,0 +1,152 @@
+import { STORAGE_KEY_PREFIX } from './storage';
+import type { StorageAdapter } from './storage';
+
+// ── Types ─────────────────────────────────────────────────────────────
+
+/**
+ * Session state persisted between launches.
+ *
+ * @internal
+ */
+export interface PersistedSession {
+  sessionId: string;
+  /** Unix timestamp (ms) when the session started. */
+  startedAt: number;
+  /** Unix timestamp (ms) when the app was last seen in the foreground. */
+  lastActiveAt: number;
+}
+
+/**
+ * Options for the {@link SessionLifecycle}.
+ *
+ * @internal
+ */
+export interface SessionLifecycleOptions {
+  storage: StorageAdapter;
+  /** Inactivity window after which a new session is started. */
+  timeoutMs: number;
+  /** Factory for new session IDs. */
+  createId: () => string;
+}
+
+/**
+ * Result of {@link SessionLifecycle.restore}.
+ *
+ * @internal
+ */
+export interface RestoredSession {
+  /** The session to use from now on. */
+  session: PersistedSession;
+  /** `true` if `session` was carried over from a previous launch. */
+  resumed: boolean;
+  /** The persisted session that was discarded because it timed out. */
+  expired?: PersistedSession;
+}
+
+// ── Constants ─────────────────────────────────────────────────────────
+
+const SESSION_KEY = `${STORAGE_KEY_PREFIX}session`;
+
+/** Minimum ms between two persisted `touch()` writes. */
+const TOUCH_PERSIST_INTERVAL_MS = 5_000;
+
+// ── Lifecycle ─────────────────────────────────────────────────────────
+
+/**
+ * Owns the session ID across app launches and background periods.
+ *
+ * A session continues as long as the app is never inactive (closed or
+ * backgrounded) for longer than `timeoutMs`.  The session is persisted
+ * so a cold start within the window — or a remount of the provider —
+ * resumes the same session instead of starting a new one.
+ *
+ * The lifecycle only decides *which* session is current; emitting
+ * session-start / session-end markers is up to the caller.
+ *
+ * @internal
+ */
+export class SessionLifecycle {
+  private session: PersistedSession;
+  private lastPersistTs = 0;
+
+  constructor(private opts: SessionLifecycleOptions) {
+    const now = Date.now();
+    this.session = { sessionId: opts.createId(), startedAt: now, lastActiveAt: now };
+  }
+
+  /** The current session ID. */
+  get sessionId(): string {
+    return this.session.sessionId;
+  }
+
+  /**
+   * Resume the persisted session if it is still within the inactivity
+   * window, otherwise start a new one.
+   */
+  async restore(now: number = Date.now()): Promise<RestoredSession> {
+    let persisted: PersistedSession | null = null;
+    try {
+      const raw = await this.opts.storage.getItem(SESSION_KEY);
+      persisted = raw ? (JSON.parse(raw) as PersistedSession) : null;
+    } catch {
+      // Unreadable – treat as a fresh install.
+    }
+
+    if (persisted?.sessionId && now - persisted.lastActiveAt <= this.opts.timeoutMs) {
+      this.session = { ...persisted, lastActiveAt: now };
+      await this.persist(now);
+      return { session: this.session, resumed: true };
+    }
+
+    this.session = { sessionId: this.opts.createId(), startedAt: now, lastActiveAt: now };
+    await this.persist(now);
+    return {
+      session: this.session,
+      resumed: false,
+      expired: persisted?.sessionId ? persisted : undefined,
+    };
+  }
+
+  /**
+   * Mark the session as active at `now`.
+   *
+   * Persisted at most every few seconds unless `force` is set (use it
+   * when the app is about to be backgrounded).
+   */
+  touch(now: number = Date.now(), force = false): void {
+    this.session.lastActiveAt = now;
+    if (force || now - this.lastPersistTs >= TOUCH_PERSIST_INTERVAL_MS) {
+      this.persist(now);
+    }
+  }
+
+  /** Whether the inactivity window has elapsed since the last `touch()`. */
+  isExpired(now: number = Date.now()): boolean {
+    return now - this.session.lastActiveAt > this.opts.timeoutMs;
+  }
+
+  /** Unix timestamp (ms) of the last `touch()`. */
+  get lastActiveAt(): number {
+    return this.session.lastActiveAt;
+  }
+
+  /**
+   * End the current session and start a new one.
+   *
+   * @returns The new session ID.
+   */
+  rotate(now: number = Date.now()): string {
+    this.session = { sessionId: this.opts.createId(), startedAt: now, lastActiveAt: now };
+    this.persist(now);
+    return this.session.sessionId;
+  }
+
+  private async persist(now: number): Promise<void> {
+    this.lastPersistTs = now;
+    try {
+      await this.opts.storage.setItem(SESSION_KEY, JSON.stringify(this.session));
+    } catch {
+      // Non-fatal – the session simply won't survive a restart.
+    }
+  }
+}
@@ -0,0 +1,156 @@
+// ── Types ─────────────────────────────────────────────────────────────
+
+/**
+ * Minimal async key/value store used by the SDK to persist data across
+ * app launches (e.g. the offline upload queue).
+ *
+ * The shape matches `@react-native-async-storage/async-storage`, so an
+ * `AsyncStorage` instance can be passed directly as the `storage` prop
+ * of `<SessionCaptureProvider>`.
+ */
+export interface StorageAdapter {
+  /** Return the stored value for `key`, or `null` if absent. */
+  getItem(key: string): Promise<string | null>;
+  /** Store `value` under `key`, replacing any previous value. */
+  setItem(key: string, value: string): Promise<void>;
+  /** Remove `key`.  Must not throw if the key does not exist. */
+  removeItem(key: string): Promise<void>;
+}
+
+// ── Constants ─────────────────────────────────────────────────────────
+
+/** @internal Prefix applied to every key the SDK writes. */
+export const STORAGE_KEY_PREFIX = 'expo-session-capture:';
+
+// ── Adapters ──────────────────────────────────────────────────────────
+
+/**
+ * Create a non-persistent, in-memory {@link StorageAdapter}.
+ *
+ * Data is lost when the JS runtime restarts.  Useful for unit tests
+ * and as the last-resort fallback when no persistent storage module
+ * is installed.
+ */
+export function createMemoryStorage(): StorageAdapter {
+  const store = new Map<string, string>();
+
+  return {
+    async getItem(key) {
+      return store.has(key) ? (store.get(key) as string) : null;
+    },
+    async setItem(key, value) {
+      store.set(key, value);
+    },
+    async removeItem(key) {
+      store.delete(key);
+    },
+  };
+}
+
+/**
+ * Resolve the string-based `expo-file-system` API, or `null` if the
+ * module is not installed.
+ *
+ * @internal
+ */
+export function loadFileSystem(): any | null {
+  let FileSystem: any;
+  try {
+    // SDK 54+ moved the string-based API to `expo-file-system/legacy`.
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    FileSystem = require('expo-file-system/legacy');
+  } catch {
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      FileSystem = require('expo-file-system');
+    } catch {
+      return null;
+    }
+  }
+
+  if (!FileSystem?.documentDirectory || !FileSystem.writeAsStringAsync) {
+    return null;
+  }
+  return FileSystem;
+}
+
+/**
+ * Build a {@link StorageAdapter} backed by `expo-file-system`, storing
+ * one file per key in `{documentDirectory}/expo-session-capture/`.
+ *
+ * Returns `null` if `expo-file-system` is not installed.
+ */
+function createFileSystemStorage(): StorageAdapter | null {
+  const FileSystem = loadFileSystem();
+  if (!FileSystem) return null;
+
+  const directory = `${FileSystem.documentDirectory}expo-session-capture/`;
+  let ensureDirectory: Promise<void> | null = null;
+
+  const pathFor = (key: string) => directory + encodeURIComponent(key);
+  const ready = () => {
+    if (!ensureDirectory) {
+      ensureDirectory = FileSystem.makeDirectoryAsync(directory, {
+        intermediates: true,
+      }).catch(() => {
+        // Directory already exists (older SDKs throw instead of no-op).
+      });
+    }
+    return ensureDirectory as Promise<void>;
+  };
+
+  return {
+    async getItem(key) {
+      await ready();
+      const info = await FileSystem.getInfoAsync(pathFor(key));
+      if (!info.exists) return null;
+      return FileSystem.readAsStringAsync(pathFor(key));
+    },
+    async setItem(key, value) {
+      await ready();
+      await FileSystem.writeAsStringAsync(pathFor(key), value);
+    },
+    async removeItem(key) {
+      await ready();
+      await FileSystem.deleteAsync(pathFor(key), { idempotent: true });
+    },
+  };
+}
+
+/**
+ * Return the `AsyncStorage` default export if
+ * `@react-native-async-storage/async-storage` is installed.
+ */
+function createAsyncStorage(): StorageAdapter | null {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const mod = require('@react-native-async-storage/async-storage');
+    const AsyncStorage = mod?.default ?? mod;
+    return AsyncStorage?.getItem ? (AsyncStorage as StorageAdapter) : null;
+  } catch {
+    return null;
+  }
+}
+
+let defaultStorage: StorageAdapter | null = null;
+
+/**
+ * Resolve the storage adapter used when none is passed explicitly.
+ *
+ * Tries, in order:
+ *
+ * 1. `expo-file-system` — no practical size limit, preferred for
+ *    screenshot-heavy payloads.
+ * 2. `@react-native-async-storage/async-storage`.
+ * 3. An in-memory store (nothing survives a restart).
+ *
+ * Both modules are optional peer dependencies and are resolved lazily
+ * so the SDK has no hard dependency on either.  The result is cached.
+ */
+export function getDefaultStorage(): StorageAdapter {
+  if (!defaultStorage) {
+    defaultStorage =
+      createFileSystemStorage() ?? createAsyncStorage() ?? createMemoryStorage();
+  }
+  return defaultStorage;
+}
@@ -0,0 +1,318 @@
+import { decodeJpeg, encodeJpeg } from './imageCodec';
+import type { RgbaImage } from './imageCodec';
+import type { CapturedFrame, FrameTile, TileFrame } from './types';
+
+// ── Constants ─────────────────────────────────────────────────────────
+
+/**
+ * Per-channel difference (0 – 255) a pixel may show before its tile
+ * counts as changed.  Unchanged JPEG blocks decode to identical pixels,
+ * so this only needs to absorb rounding.
+ */
+const PIXEL_TOLERANCE = 8;
+
+/**
+ * If more than this fraction of tiles changed, a keyframe is smaller
+ * than the sum of the individual tile JPEGs (each carries its own
+ * headers), so one is sent instead.
+ */
+const MAX_DELTA_COVERAGE = 0.5;
+
+// ── Encoder ───────────────────────────────────────────────────────────
+
+/**
+ * Options for the {@link TileEncoder}.
+ *
+ * @internal
+ */
+export interface TileEncoderOptions {
+  /** Tile edge length in pixels. */
+  tileSize: number;
+  /** Emit a keyframe at least every this many frames. */
+  keyframeInterval: number;
+}
+
+/**
+ * Turns a stream of full JPEG frames into keyframes and deltas that
+ * only carry the tiles that changed since the previous frame.
+ *
+ * The encoder compares each frame with the pixels it has already
+ * **sent** — exactly what the decoder has rebuilt, tiles included at
+ * their reduced quality — not with the previous capture, so slow
+ * changes that stay under the tolerance from frame to frame are still
+ * picked up once they add up.  A tile whose content has not changed
+ * since it was last encoded is not sent again, even if the decoder's
+ * copy differs by more than the tolerance: encoding it again would
+ * only reproduce the same loss.
+ *
+ * @internal
+ */
+export class TileEncoder {
+  /** The frame as the decoder has rebuilt it. */
+  private reference: RgbaImage | null = null;
+  /** The captured pixels each tile of {@link reference} was encoded from. */
+  private source: RgbaImage | null = null;
+  private referenceTs = 0;
+  private framesSinceKeyframe = 0;
+
+  constructor(private opts: TileEncoderOptions) {}
+
+  /**
+   * Encode a captured (already masked) frame.
+   *
+   * @param image          Base-64 JPEG of the full frame.
+   * @param quality        JPEG quality `0` – `1` for changed tiles.
+   * @param forceKeyframe  Emit a keyframe regardless of the interval
+   *                       (e.g. the first frame of a payload).
+   *
+   * Throws if the frame cannot be decoded; the caller should then
+   * upload it as a plain frame and {@link reset} the encoder.
+   */
+  encode(
+    image: string,
+    timestamp: number,
+    quality: number,
+    forceKeyframe: boolean,
+    label?: string,
+  ): TileFrame {
+    const current = decodeJpeg(image);
+    const { tileSize } = this.opts;
+    const reference = this.reference;
+    const source = this.source;
+
+    const needsKeyframe =
+      forceKeyframe ||
+      !reference ||
+      !source ||
+      reference.width !== current.width ||
+      reference.height !== current.height ||
+      this.framesSinceKeyframe + 1 >= this.opts.keyframeInterval;
+
+    if (!needsKeyframe) {
+      const changed = changedTiles(reference, source, current, tileSize);
+      const total =
+        Math.ceil(current.width / tileSize) * Math.ceil(current.height / tileSize);
+
+      if (changed.length / total <= MAX_DELTA_COVERAGE) {
+        const tiles: FrameTile[] = changed.map((rect) => {
+          const tile = encodeJpeg(crop(current, rect), quality);
+          copyRect(decodeJpeg(tile), reference, rect, 0, 0);
+          copyRect(current, source, rect);
+          return { ...rect, image: tile };
+        });
+        const frame: TileFrame = {
+          timestamp,
+          keyframe: false,
+          width: current.width,
+          height: current.height,
+          tileSize,
+          base: this.referenceTs,
+          tiles,
+          ...(label !== undefined && { label }),
+        };
+        this.referenceTs = timestamp;
+        this.framesSinceKeyframe++;
+        return frame;
+      }
+    }
+
+    // A keyframe is sent as captured, so the decoder has it exactly.
+    this.reference = current;
+    this.source = { ...current, data: current.data.slice() };
+    this.referenceTs = timestamp;
+    this.framesSinceKeyframe = 0;
+    return {
+      timestamp,
+      keyframe: true,
+      width: current.width,
+      height: current.height,
+      tileSize,
+      image,
+      ...(label !== undefined && { label }),
+    };
+  }
+
+  /** Forget the reference frame so the next frame is a keyframe. */
+  reset(): void {
+    this.reference = null;
+    this.source = null;
+    this.referenceTs = 0;
+    this.framesSinceKeyframe = 0;
+  }
+}
+
+// ── Decoder ───────────────────────────────────────────────────────────
+
+/**
+ * Reference decoder for `tileFrames`.
+ *
+ * Feed frames in timestamp order; each call returns the full
+ * reconstructed frame.  The decoder is stateful, so a session split
+ * across several payloads can be decoded by reusing one instance —
+ * although every batch starts with a keyframe and can also be decoded
+ * on its own.  Chunks of a split batch must be decoded in
+ * `batchSequence` order.
+ *
+ * Pure JS with no React Native dependency, so it also runs on a
+ * Node.js backend or in tests.
+ *
+ * @example
+ * ```ts
+ * const decoder = new TileDecoder();
+ * for (const frame of payload.tileFrames) {
+ *   const { width, height, data } = decoder.decode(frame);  // RGBA
+ * }
+ * ```
+ */
+export class TileDecoder {
+  private current: RgbaImage | null = null;
+  private currentTs = 0;
+
+  /**
+   * Apply a keyframe or delta and return the reconstructed frame as
+   * RGBA pixels.
+   *
+   * Throws if a delta arrives without the frame it is based on.
+   */
+  decode(frame: TileFrame): RgbaImage {
+    let current = this.current;
+    if (frame.keyframe) {
+      if (!frame.image) throw new Error('Keyframe without image data');
+      current = decodeJpeg(frame.image);
+    } else {
+      if (
+        !current ||
+        frame.base !== this.currentTs ||
+        current.width !== frame.width ||
+        current.height !== frame.height
+      ) {
+        throw new Error(`Missing base frame ${frame.base} for delta ${frame.timestamp}`);
+      }
+      for (const tile of frame.tiles ?? []) {
+        copyRect(decodeJpeg(tile.image), current, tile, 0, 0);
+      }
+    }
+    this.current = current;
+    this.currentTs = frame.timestamp;
+
+    const { width, height, data } = current;
+    return { width, height, data: data.slice() };
+  }
+}
+
+/**
+ * Reconstruct full JPEG frames from `tileFrames`, e.g. to feed an
+ * existing replay pipeline that only understands `frames`.
+ *
+ * @param quality  JPEG quality `0` – `1` for the re-encoded frames.
+ *
+ * @example
+ * ```ts
+ * const frames = [...payload.frames, ...reconstructFrames(payload.tileFrames)]
+ *   .sort((a, b) => a.timestamp - b.timestamp);
+ * ```
+ */
+export function reconstructFrames(
+  tileFrames: TileFrame[],
+  quality = 0.8,
+): CapturedFrame[] {
+  const decoder = new TileDecoder();
+  return tileFrames.map((frame) => {
+    const pixels = decoder.decode(frame);
+    return {
+      timestamp: frame.timestamp,
+      // Keyframes are already full JPEGs – no need to re-encode them.
+      image: frame.keyframe && frame.image ? frame.image : encodeJpeg(pixels, quality),
+      ...(frame.label !== undefined && { label: frame.label }),
+      ...(frame.screen !== undefined && { screen: frame.screen }),
+      ...(frame.screenPath !== undefined && { screenPath: frame.screenPath }),
+      ...(frame.screenParams !== undefined && { screenParams: frame.screenParams }),
+    };
+  });
+}
+
+// ── Pixel helpers ─────────────────────────────────────────────────────
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Tiles of `current` that differ both from what the decoder shows
+ * (`reference`) and from the pixels they were last encoded from
+ * (`source`).  All images have the same dimensions.
+ */
+function changedTiles(
+  reference: RgbaImage,
+  source: RgbaImage,
+  current: RgbaImage,
+  tileSize: number,
+): Rect[] {
+  const rects: Rect[] = [];
+  for (let ty = 0; ty < current.height; ty += tileSize) {
+    for (let tx = 0; tx < current.width; tx += tileSize) {
+      const rect = {
+        x: tx,
+        y: ty,
+        width: Math.min(tileSize, current.width - tx),
+        height: Math.min(tileSize, current.height - ty),
+      };
+      if (rectDiffers(reference, current, rect) && rectDiffers(source, current, rect)) {
+        rects.push(rect);
+      }
+    }
+  }
+  return rects;
+}
+
+function rectDiffers(a: RgbaImage, b: RgbaImage, rect: Rect): boolean {
+  for (let y = rect.y; y < rect.y + rect.height; y++) {
+    let i = (y * b.width + rect.x) * 4;
+    const end = i + rect.width * 4;
+    for (; i < end; i += 4) {
+      if (
+        Math.abs(a.data[i] - b.data[i]) > PIXEL_TOLERANCE ||
+        Math.abs(a.data[i + 1] - b.data[i + 1]) > PIXEL_TOLERANCE ||
+        Math.abs(a.data[i + 2] - b.data[i + 2]) > PIXEL_TOLERANCE
+      ) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+/** Copy of `rect` from `image` as a standalone image. */
+function crop(image: RgbaImage, rect: Rect): RgbaImage {
+  const out: RgbaImage = {
+    width: rect.width,
+    height: rect.height,
+    data: new Uint8Array(rect.width * rect.height * 4),
+  };
+  copyRect(image, out, { ...rect, x: 0, y: 0 }, rect.x, rect.y);
+  return out;
+}
+
+/**
+ * Copy a `rect.width × rect.height` block from `src` at
+ * (`srcX`, `srcY`) into `dst` at (`rect.x`, `rect.y`).  The source
+ * position defaults to the destination position.
+ */
+function copyRect(
+  src: RgbaImage,
+  dst: RgbaImage,
+  rect: Rect,
+  srcX = rect.x,
+  srcY = rect.y,
+): void {
+  const width = Math.min(rect.width, src.width - srcX, dst.width - rect.x);
+  const height = Math.min(rect.height, src.height - srcY, dst.height - rect.y);
+  for (let row = 0; row < height; row++) {
+    const from = ((srcY + row) * src.width + srcX) * 4;
+    const to = ((rect.y + row) * dst.width + rect.x) * 4;
+    dst.data.set(src.data.subarray(from, from + width * 4), to);
+  }
+}
@@ -1,5 +1,6 @@
 import { DeviceEventEmitter } from 'react-native';
-import type { TrackingEvent } from './types';
+import { toJsonSafe } from './jsonSafe';
+import type { TrackOptions, TrackingEvent } from './types';
 
 // ── Constants ─────────────────────────────────────────────────────────
 
@@ -22,8 +23,8 @@ export const EXPLICIT_HANDLER = Symbol('expo-session-capture:explicit');
 /**
  * Emit a tracking event onto the central bus.
  *
- * Called by `<TrackedPressable>`, `<NavigationTracker>`, and the
- * global press-capture layer.  The `SessionCaptureProvider` subscribes
+ * Called by `<TrackedPressable>`, `<NavigationTracker>`, `track()`,
+ * and the global press-capture layer.  The `SessionCaptureProvider` subscribes
  * to this bus and routes events to the `CaptureManager`.
  *
  * A `timestamp` is added automatically — callers should **not**
@@ -51,6 +52,45 @@ export function emitTrackingEvent(
   } satisfies TrackingEvent);
 }
 
+/**
+ * Record a business event in the session timeline.
+ *
+ * Use it for domain milestones the replay should be annotated with —
+ * `"checkout_started"`, `"form_error"`, `"search_performed"`.  Works
+ * anywhere (also outside React components); events are dropped while
+ * capture is inactive, paused, or without consent.
+ *
+ * @param name        Event name.  Empty names are ignored.
+ * @param properties  JSON-serialisable details uploaded with the event.
+ *                    Copied when called; values JSON cannot represent
+ *                    (circular references, `BigInt`s, functions) are
+ *                    dropped.
+ * @param options     Pass `{ screenshot: true }` to also capture a frame
+ *                    labelled with `name`.
+ *
+ * @example
+ * ```ts
+ * import { track } from 'expo-session-capture';
+ *
+ * track('search_performed', { query: 'passport', results: 12 });
+ * track('checkout_started', { items: 3 }, { screenshot: true });
+ * ```
+ */
+export function track(
+  name: string,
+  properties?: Record<string, unknown>,
+  options: TrackOptions = {},
+): void {
+  if (!name) return;
+  emitTrackingEvent({
+    type: 'custom',
+    source: 'explicit',
+    name,
+    properties: toJsonSafe(properties),
+    screenshot: options.screenshot,
+  });
+}
+
 /**
  * Subscribe to all tracking events on the central bus.
  *
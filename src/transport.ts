@@ -0,0 +1,277 @@
+import { resolveSerializer } from './serializers';
+import type { PayloadSerializer } from './serializers';
+import { loadFileSystem } from './storage';
+import { RequestSigner } from './requestSigning';
+import { parseRetryAfter } from './uploadPolicy';
+import type { PayloadFormat, UploadPayload } from './types';
+
+// ── Types ─────────────────────────────────────────────────────────────
+
+/**
+ * Outcome of sending one payload, as reported by a {@link Transport}.
+ *
+ * The `CaptureManager` classifies `status` exactly as for HTTP:
+ * `2xx` removes the payload from the offline queue, `401`/`403` stop
+ * uploads for this launch, other `4xx` drop the payload, and anything
+ * else — including a missing `status` — is retried with backoff.
+ */
+export interface TransportResult {
+  /** HTTP (or HTTP-like) status code.  Omit for network errors. */
+  status?: number;
+  /** Minimum delay (ms) before the next attempt, e.g. from `Retry-After`. */
+  retryAfter?: number;
+  /** Error message for failed attempts (reported via `onUploadResult`). */
+  error?: string;
+}
+
+/**
+ * Delivers upload payloads to the backend.
+ *
+ * The default is {@link createHttpTransport}.  Pass your own as the
+ * `transport` prop to route uploads through a proxy, add custom
+ * authentication, write them to disk, or collect them in tests.
+ *
+ * `send` may throw — a thrown error is treated like a network failure.
+ */
+export interface Transport {
+  send(payload: UploadPayload): Promise<TransportResult>;
+}
+
+/**
+ * Options for {@link createHttpTransport}.
+ */
+export interface HttpTransportOptions {
+  /** Base URL of the backend. */
+  endpointUrl: string;
+  /** Sent as the `x-api-key` header when set. */
+  apiKey?: string;
+  /**
+   * Path appended to `endpointUrl`.
+   *
+   * @default '/ingest'
+   */
+  path?: string;
+  /**
+   * Wire format of the request body.
+   *
+   * @default 'json'
+   */
+  payloadFormat?: PayloadFormat | PayloadSerializer;
+  /**
+   * Extra headers for every request, or a (possibly async) function
+   * returning them — called per request, so it can supply a fresh
+   * bearer token.
+   */
+  headers?:
+    | Record<string, string>
+    | (() => Record<string, string> | Promise<Record<string, string>>);
+  /**
+   * Called when the backend answers `401` or `403`.  Resolve to `true`
+   * after refreshing credentials to retry the request once with fresh
+   * `headers`; otherwise the failure is reported as usual.
+   */
+  onAuthError?: (status: number) => boolean | Promise<boolean>;
+  /**
+   * Sign every request with HMAC-SHA256 under a per-session key issued
+   * by `{endpointUrl}{handshakePath}`, adding key ID, timestamp, nonce,
+   * and signature headers so the backend can reject forged, tampered,
+   * or replayed requests.
+   *
+   * @default false
+   */
+  signRequests?: boolean;
+  /**
+   * Path of the key handshake endpoint used with `signRequests`.
+   *
+   * @default '/session'
+   */
+  handshakePath?: string;
+}
+
+// ── HTTP ──────────────────────────────────────────────────────────────
+
+/**
+ * The default transport: POST each payload to `{endpointUrl}/ingest`
+ * with `fetch`.
+ *
+ * @example
+ * ```tsx
+ * const transport = createHttpTransport({
+ *   endpointUrl: 'https://proxy.example.com',
+ *   path: '/session-capture/ingest',
+ *   payloadFormat: 'gzip',
+ *   headers: async () => ({ Authorization: `Bearer ${await getToken()}` }),
+ *   onAuthError: async () => {
+ *     await refreshToken();
+ *     return true;
+ *   },
+ * });
+ *
+ * <SessionCaptureProvider transport={transport} … />
+ * ```
+ */
+export function createHttpTransport(options: HttpTransportOptions): Transport {
+  const baseUrl = options.endpointUrl.replace(/\/+$/, '');
+  const url = baseUrl + (options.path ?? '/ingest');
+  const serializer = resolveSerializer(options.payloadFormat ?? 'json');
+
+  const authHeaders = async (): Promise<Record<string, string>> => ({
+    ...(options.apiKey !== undefined && { 'x-api-key': options.apiKey }),
+    ...(typeof options.headers === 'function' ? await options.headers() : options.headers),
+  });
+
+  const signer = options.signRequests
+    ? new RequestSigner({
+        handshakeUrl: baseUrl + (options.handshakePath ?? '/session'),
+        getHeaders: authHeaders,
+      })
+    : null;
+
+  /** Sign (if enabled) and POST once. */
+  const post = async (
+    payload: UploadPayload,
+    body: string | Uint8Array,
+    headers: Record<string, string>,
+  ): Promise<TransportResult> => {
+    const signed = signer ? await signer.sign(payload, body) : { headers: {} };
+    if ('failure' in signed) return signed.failure;
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { ...headers, ...(await authHeaders()), ...signed.headers },
+      // React Native's fetch sends binary bodies from an ArrayBuffer;
+      // copy so the buffer holds exactly the body bytes.
+      body: typeof body === 'string' ? body : (body.slice().buffer as ArrayBuffer),
+    });
+    return {
+      status: response.status,
+      retryAfter: parseRetryAfter(response.headers?.get('Retry-After')),
+    };
+  };
+
+  return {
+    async send(payload) {
+      try {
+        const { body, headers } = serializer.serialize(payload);
+        let result = await post(payload, body, headers);
+
+        if (isAuthFailure(result) && signer) {
+          // The session key may have expired or been revoked – get a new one.
+          signer.invalidate(payload.sessionId);
+          result = await post(payload, body, headers);
+        }
+        if (
+          isAuthFailure(result) &&
+          options.onAuthError &&
+          (await options.onAuthError(result.status as number))
+        ) {
+          result = await post(payload, body, headers);
+        }
+        return result;
+      } catch (err) {
+        return { error: err instanceof Error ? err.message : String(err) };
+      }
+    },
+  };
+}
+
+function isAuthFailure(result: TransportResult): boolean {
+  return result.status === 401 || result.status === 403;
+}
+
+// ── In-memory ─────────────────────────────────────────────────────────
+
+/**
+ * A {@link Transport} that keeps payloads in memory — for unit tests.
+ */
+export interface MemoryTransport extends Transport {
+  /** Every payload sent so far, in order. */
+  readonly payloads: UploadPayload[];
+  /** Forget all collected payloads. */
+  clear(): void;
+}
+
+/**
+ * Create an in-memory transport for tests.
+ *
+ * @param respond  Decides the result of each send.  Defaults to
+ *                 `{ status: 200 }`, so payloads leave the queue.
+ *
+ * @example
+ * ```tsx
+ * const transport = createMemoryTransport();
+ * render(<SessionCaptureProvider transport={transport} … />);
+ * // …
+ * expect(transport.payloads[0].taps).toHaveLength(1);
+ * ```
+ */
+export function createMemoryTransport(
+  respond: (payload: UploadPayload) => TransportResult = () => ({ status: 200 }),
+): MemoryTransport {
+  const payloads: UploadPayload[] = [];
+
+  return {
+    payloads,
+    async send(payload) {
+      payloads.push(payload);
+      return respond(payload);
+    },
+    clear() {
+      payloads.length = 0;
+    },
+  };
+}
+
+// ── File ──────────────────────────────────────────────────────────────
+
+/**
+ * Options for {@link createFileTransport}.
+ */
+export interface FileTransportOptions {
+  /**
+   * Directory (a `file://` URI) the payloads are written to.
+   *
+   * @default `${documentDirectory}expo-session-capture-uploads/`
+   */
+  directory?: string;
+}
+
+/**
+ * A transport that writes each payload as a JSON file instead of
+ * uploading it — for inspecting captured data during development.
+ *
+ * Files are named `{timestamp}-{sessionId}-{batchSequence}.json`.
+ * Requires `expo-file-system`; without it every send fails.
+ */
+export function createFileTransport(options: FileTransportOptions = {}): Transport {
+  let ensureDirectory: Promise<void> | null = null;
+
+  return {
+    async send(payload) {
+      const FileSystem = loadFileSystem();
+      if (!FileSystem) return { error: 'expo-file-system is not installed' };
+
+      const directory =
+        options.directory ?? `${FileSystem.documentDirectory}expo-session-capture-uploads/`;
+      if (!ensureDirectory) {
+        ensureDirectory = FileSystem.makeDirectoryAsync(directory, {
+          intermediates: true,
+        }).catch(() => {
+          // Directory already exists (older SDKs throw instead of no-op).
+        });
+      }
+
+      try {
+        await ensureDirectory;
+        const name = `${Date.now()}-${payload.sessionId}-${payload.batchSequence}.json`;
+        await FileSystem.writeAsStringAsync(
+          directory.replace(/\/?$/, '/') + encodeURIComponent(name),
+          JSON.stringify(payload),
+        );
+        return { status: 200 };
+      } catch (err) {
+        return { error: err instanceof Error ? err.message : String(err) };
+      }
+    },
+  };
+}
@@ -1,5 +1,8 @@
 import type { RefObject } from 'react';
 import type { View } from 'react-native';
+import type { StorageAdapter } from './storage';
+import type { PayloadSerializer } from './serializers';
+import type { Transport } from './transport';
 
 // ── Config ──────────────────────────────────────────────────────────────
 
@@ -26,9 +29,9 @@ export interface SessionCaptureConfig {
    * bucket, so a user is either always captured or never captured
    * within a given `samplingRate`.
    *
-   * If omitted, an anonymous UUID is generated automatically.
-   * Call `identify(userId)` later to associate the session with a
-   * real user after login.
+   * If omitted, an anonymous UUID is generated on first launch and
+   * persisted for the install.  Call `identify(userId)` later to
+   * associate the session with a real user after login.
    */
   userId?: string;
 
@@ -57,12 +60,61 @@ export interface SessionCaptureConfig {
    * - `1`   → every user captured
    *
    * Sampling is deterministic: the same `userId` always produces the
-   * same result for a given rate.
+   * same result for a given rate.  Fractional rates below 1 % (e.g.
+   * `0.0005`) are supported.
    *
    * @default 0.1
    */
   samplingRate?: number;
 
+  /**
+   * Salt mixed into the sampling hash.
+   *
+   * Use a different salt per project or experiment so each samples an
+   * independent cohort of users instead of always the same ones.
+   *
+   * @default ''
+   */
+  samplingSalt?: string;
+
+  /**
+   * Hash used for sampling.
+   *
+   * - `'fnv1a'`  — uniform, collision-resistant hash (default).
+   * - `'legacy'` — the character-code sum used by earlier SDK
+   *   versions.  Choose it when upgrading to keep every existing user
+   *   in the bucket they were already in (ignores `samplingSalt`,
+   *   1 % granularity).
+   *
+   * **Breaking:** earlier versions always used the legacy sum, so
+   * upgrading without setting `'legacy'` re-buckets every user.
+   *
+   * @default 'fnv1a'
+   */
+  samplingHash?: SamplingHash;
+
+  /**
+   * Targeted sampling rules, evaluated in order before falling back to
+   * `samplingRate`.
+   *
+   * The first rule whose conditions all match decides the rate for the
+   * session.  Screen and event-category conditions match once the
+   * screen has been visited / the category has fired in the current
+   * session, and stay matched until the session ends — capture starts
+   * from that moment on.
+   *
+   * @example
+   * ```ts
+   * samplingRules={[
+   *   { userIds: ['support-case-1234'] },          // always record
+   *   { screens: ['Checkout'] },                   // 100 % once in checkout
+   *   { appVersions: ['2.4.0-beta'], rate: 0.5 },  // half of beta users
+   *   { eventCategories: ['conversion'] },         // record converting sessions
+   * ]}
+   * ```
+   */
+  samplingRules?: SamplingRule[];
+
   /**
    * Hard cap on the number of screenshots per session.
    *
@@ -150,17 +202,571 @@ export interface SessionCaptureConfig {
    * @default 10000
    */
   idleTimeoutMs?: number;
+
+  /**
+   * How each new frame is compared with the previous one to skip
+   * duplicates (e.g. periodic captures while the user reads).
+   *
+   * - `'off'`        — keep every frame.
+   * - `'exact'`      — skip byte-identical frames (cheap hash).
+   * - `'perceptual'` — skip frames that look the same on a downscaled
+   *   luminance grid.  Also catches encoder noise and blinking carets,
+   *   at the cost of a JPEG decode per frame on the JS thread.
+   *
+   * Skipped frames do not count against `maxFrames` and are uploaded
+   * as {@link UnchangedFrame} markers instead of images.
+   *
+   * @default 'exact'
+   */
+  frameDedup?: FrameDedupMode;
+
+  /**
+   * For `frameDedup: 'perceptual'`, the fraction of the downscaled
+   * grid (0 – 1) that may change before a frame counts as different.
+   *
+   * @default 0.002
+   */
+  frameDiffThreshold?: number;
+
+  /**
+   * How frames are uploaded.
+   *
+   * - `'full'`  — every frame is a complete JPEG in `frames`.
+   * - `'tiles'` — frames go to `tileFrames`: periodic keyframes plus
+   *   deltas carrying only the `tileSize` tiles that changed.  Much
+   *   smaller when only part of the screen changes, at the cost of a
+   *   JPEG decode per frame on the JS thread.
+   *
+   * @default 'full'
+   */
+  frameEncoding?: FrameEncoding;
+
+  /**
+   * Tile edge length in pixels for `frameEncoding: 'tiles'`.
+   *
+   * @default 64
+   */
+  tileSize?: number;
+
+  /**
+   * For `frameEncoding: 'tiles'`, send a full keyframe at least every
+   * this many frames.  The first frame of every batch is always a
+   * keyframe.
+   *
+   * @default 10
+   */
+  keyframeInterval?: number;
+
+  /**
+   * Upper bound (bytes of JSON) for a single upload request.
+   *
+   * A flush holding more data — e.g. after a long background period —
+   * is split into several time-ordered chunks that share a `batchId`
+   * and carry their `batchSequence`, so the backend can reassemble
+   * them.  A single frame larger than the limit is still sent on its
+   * own.  Set to `0` to disable splitting.
+   *
+   * @default 1000000
+   */
+  maxPayloadBytes?: number;
+
+  /**
+   * Wire format of upload requests.
+   *
+   * - `'json'`      — plain JSON, images as base-64 strings (default).
+   * - `'gzip'` / `'deflate'` — the same JSON, compressed in pure JS and
+   *   sent with a matching `Content-Encoding` header.
+   * - `'multipart'` — `multipart/form-data` with a JSON `manifest` part
+   *   and each image as a binary part.
+   * - A custom {@link PayloadSerializer}.
+   *
+   * Queued payloads are serialized when sent, so switching formats
+   * also applies to data queued by an earlier launch.  Ignored when a
+   * custom `transport` is passed — set it on `createHttpTransport()`
+   * instead.
+   *
+   * @default 'json'
+   */
+  payloadFormat?: PayloadFormat | PayloadSerializer;
+
+  /**
+   * Base-64 X25519 public key of your analysis backend.  When set,
+   * every frame image is encrypted on the device before it is
+   * buffered, so only the holder of the matching secret key can see
+   * screenshots — not proxies, logging middleware, or the ingest tier.
+   *
+   * Each batch uses a random key wrapped for this public key (see
+   * {@link PayloadEncryption}).  Requires a secure random source
+   * (`crypto.getRandomValues` or `expo-crypto`); if none is available,
+   * or the key is invalid, frames are dropped rather than sent in the
+   * clear.  Events (taps, navigation, …) are not encrypted.
+   *
+   * Create a key pair with `generateEncryptionKeyPair()`.
+   */
+  encryptionPublicKey?: string;
+
+  /**
+   * Sign every upload with HMAC-SHA256.
+   *
+   * Before the first upload of a session, the SDK requests a signing
+   * key from `POST {endpointUrl}/session`.  Each request then carries
+   * `X-Signature-Key-Id`, `X-Signature-Timestamp`, `X-Signature-Nonce`,
+   * and `X-Signature` headers, so the backend can reject forged,
+   * tampered, or replayed payloads instead of trusting the bundled
+   * `apiKey` alone.  Keys live in memory only.
+   *
+   * Ignored when a custom `transport` is passed — set it on
+   * `createHttpTransport()` instead.
+   *
+   * @default false
+   */
+  signRequests?: boolean;
+
+  /**
+   * Delivers upload payloads.
+   *
+   * Defaults to an HTTP transport that POSTs to `{endpointUrl}/ingest`
+   * with the `x-api-key` header in `payloadFormat`, signed if
+   * `signRequests` is set.  Use
+   * `createHttpTransport()` for custom headers, token refresh, or a
+   * proxy URL; `createFileTransport()` to write payloads to disk while
+   * debugging; or `createMemoryTransport()` in tests.  Any object
+   * implementing {@link Transport} works.
+   *
+   * A custom transport replaces the built-in one, so `payloadFormat`
+   * and `signRequests` are ignored — pass them to
+   * `createHttpTransport()` instead.
+   *
+   * Read once on mount.
+   */
+  transport?: Transport;
+
+  /**
+   * Persistent key/value store for the offline upload queue.
+   *
+   * Every payload is written here before it is uploaded and removed
+   * only after the backend responds with a `2xx` status, so data
+   * survives network failures and app restarts.
+   *
+   * Defaults to `expo-file-system`, then
+   * `@react-native-async-storage/async-storage`, whichever is
+   * installed — or an in-memory store if neither is available.
+   * Pass `createMemoryStorage()` in tests.
+   */
+  storage?: StorageAdapter;
+
+  /**
+   * Maximum number of payloads kept in the offline upload queue.
+   *
+   * @default 50
+   */
+  maxQueuedUploads?: number;
+
+  /**
+   * Maximum total size (bytes) of the offline upload queue.
+   *
+   * Caps disk usage during long offline periods.  A single payload
+   * larger than this is discarded.
+   *
+   * @default 5_000_000
+   */
+  maxQueueBytes?: number;
+
+  /**
+   * What to discard when the offline queue is full.
+   *
+   * - `'drop-oldest'` — evict the oldest queued payloads (default).
+   * - `'drop-newest'` — keep the backlog and discard new payloads.
+   *
+   * @default 'drop-oldest'
+   */
+  queueEvictionPolicy?: QueueEvictionPolicy;
+
+  /**
+   * Base delay in milliseconds for exponential backoff after a failed
+   * upload (network error, `408`, `429`, or `5xx`).
+   *
+   * The delay doubles with each consecutive failure (with jitter) up
+   * to `retryMaxDelayMs`.  A `Retry-After` header from the backend
+   * takes precedence when it asks for a longer wait, up to
+   * `retryMaxDelayMs`.
+   *
+   * @default 1000
+   */
+  retryBaseDelayMs?: number;
+
+  /**
+   * Upper bound in milliseconds for the upload backoff delay.  Also
+   * caps `Retry-After`, so a bad header cannot stop uploads for long.
+   *
+   * @default 300000
+   */
+  retryMaxDelayMs?: number;
+
+  /**
+   * Called after every upload attempt with its outcome.
+   *
+   * Use it to log ingest health to your own monitoring — e.g. to spot
+   * a revoked `apiKey` (`'auth-failed'`) or payloads rejected by the
+   * backend (`'dropped'`).  Errors thrown by the callback are ignored.
+   */
+  onUploadResult?: (result: UploadResult) => void;
+
+  /**
+   * Called for every rage tap or dead tap detected on-device.
+   *
+   * The signals are uploaded in `frustrationSignals` either way; use
+   * the callback to also log them to your own analytics.  Requires the
+   * root gesture observer (`enableGestureCapture`).  Errors thrown by
+   * the callback are ignored.
+   */
+  onFrustrationSignal?: (signal: FrustrationSignal) => void;
+
+  /**
+   * Number of taps on the same spot within `rageTapWindowMs` that
+   * count as a rage tap.
+   *
+   * @default 3
+   */
+  rageTapCount?: number;
+
+  /**
+   * Time window (ms) for `rageTapCount`.
+   *
+   * @default 1000
+   */
+  rageTapWindowMs?: number;
+
+  /**
+   * How masked regions are hidden in captured frames.
+   *
+   * - `'blackout'` — solid black rectangle (default).
+   * - `'blur'`     — coarse pixelation; keeps the layout recognisable
+   *   without revealing content.
+   *
+   * Applies to `<SessionCaptureMask>`, the `sessionCaptureMask` prop,
+   * and automatically masked secure text inputs.
+   *
+   * @default 'blackout'
+   */
+  maskStyle?: MaskStyle;
+
+  /**
+   * Automatically mask every `<TextInput secureTextEntry>`.
+   *
+   * Individual inputs can opt out with `sessionCaptureMask={false}`.
+   *
+   * While any masked view is mounted, every frame is decoded and
+   * re-encoded in JS (on the JS thread) to apply the masks, so
+   * capturing costs noticeably more CPU on screens with a secure field.
+   *
+   * @default true
+   */
+  maskSecureTextEntry?: boolean;
+
+  /**
+   * The user's consent to session capture (controlled mode).
+   *
+   * - `'pending'` — nothing is captured or buffered.
+   * - `'granted'` — capture runs (subject to sampling).
+   * - `'denied'`  — nothing is captured; all buffered and queued data
+   *   is purged from memory and disk.
+   *
+   * The value is persisted, so on the next launch the last decision
+   * applies even before this prop is set.  Omit it and call
+   * `setConsent()` from `useSessionCapture()` instead if you prefer
+   * uncontrolled mode.
+   */
+  consent?: ConsentState;
+
+  /**
+   * Consent state used when neither the `consent` prop nor a persisted
+   * decision is available.
+   *
+   * Defaults to `'pending'`, so nothing is captured until the user
+   * opts in (GDPR).  Set to `'granted'` only if your app has another
+   * legal basis for capturing without an explicit opt-in.
+   *
+   * @default 'pending'
+   */
+  defaultConsent?: ConsentState;
+
+  /**
+   * Milliseconds the app may stay in the background (or closed) before
+   * the next foreground starts a **new** session.
+   *
+   * Within this window, returning to the app — even after a cold
+   * start — continues the previous session.
+   *
+   * @default 1800000 (30 minutes)
+   */
+  sessionTimeoutMs?: number;
+
+  /**
+   * Start a new session when `identify()` is called with a user ID
+   * that differs from the currently identified user (e.g. switching
+   * accounts).
+   *
+   * Identifying a previously anonymous user never starts a new
+   * session.
+   *
+   * @default false
+   */
+  newSessionOnIdentify?: boolean;
+
+  /**
+   * Fetch a {@link RemoteConfig} document from `{endpointUrl}/config`
+   * at startup.
+   *
+   * Values in the document override the corresponding props, so
+   * capture can be tuned — or switched off with `enabled: false` —
+   * from the backend without an app release.  The document is cached
+   * on the device for `remoteConfigTtlMs`; if it cannot be fetched,
+   * the cached copy (or the props) apply.
+   *
+   * @default true
+   */
+  remoteConfig?: boolean;
+
+  /**
+   * How long (ms) a fetched remote config document is reused before
+   * it is fetched again.
+   *
+   * @default 3600000 (1 hour)
+   */
+  remoteConfigTtlMs?: number;
+}
+
+/**
+ * Remote configuration served by `{endpointUrl}/config`.
+ *
+ * Every field is optional; present fields override the matching
+ * `<SessionCaptureProvider>` props.  Unknown fields and values of the
+ * wrong type are ignored.
+ *
+ * @example
+ * ```json
+ * { "enabled": true, "samplingRate": 0.02, "periodicCaptureMs": 2000 }
+ * ```
+ */
+export interface RemoteConfig {
+  /**
+   * Kill switch.  `false` disables capture entirely for every user
+   * until the document changes.
+   */
+  enabled?: boolean;
+  samplingRate?: number;
+  samplingRules?: SamplingRule[];
+  maxFrames?: number;
+  throttleMs?: number;
+  imageQuality?: number;
+  flushIntervalMs?: number;
+  periodicCaptureMs?: number;
+  idleTimeoutMs?: number;
+}
+
+/**
+ * The user's consent to session capture.
+ *
+ * @see SessionCaptureConfig.consent
+ */
+export type ConsentState = 'granted' | 'denied' | 'pending';
+
+/**
+ * How masked regions are hidden in captured frames.
+ *
+ * @see SessionCaptureConfig.maskStyle
+ */
+export type MaskStyle = 'blackout' | 'blur';
+
+/**
+ * How duplicate frames are detected.
+ *
+ * @see SessionCaptureConfig.frameDedup
+ */
+export type FrameDedupMode = 'off' | 'exact' | 'perceptual';
+
+/**
+ * How captured frames are uploaded.
+ *
+ * @see SessionCaptureConfig.frameEncoding
+ */
+export type FrameEncoding = 'full' | 'tiles';
+
+/**
+ * Built-in upload body formats.
+ *
+ * @see SessionCaptureConfig.payloadFormat
+ */
+export type PayloadFormat = 'json' | 'gzip' | 'deflate' | 'multipart';
+
+/**
+ * A conditional sampling rule.
+ *
+ * All specified conditions must match (AND); each condition matches
+ * if **any** of its values does (OR).  A rule with no conditions
+ * matches every session.
+ *
+ * @see SessionCaptureConfig.samplingRules
+ */
+export interface SamplingRule {
+  /** Match these user IDs (anonymous or identified). */
+  userIds?: string[];
+  /** Match once any of these screens has been visited in the session. */
+  screens?: string[];
+  /** Match these app versions (`expoConfig.version`). */
+  appVersions?: string[];
+  /** Match once a `TrackingEvent` with any of these categories has fired. */
+  eventCategories?: string[];
+  /**
+   * Sampling rate applied when the rule matches.
+   *
+   * @default 1
+   */
+  rate?: number;
+}
+
+/**
+ * Hash function used for deterministic sampling.
+ *
+ * @see SessionCaptureConfig.samplingHash
+ */
+export type SamplingHash = 'fnv1a' | 'legacy';
+
+/**
+ * Eviction policy for the offline upload queue.
+ *
+ * @see SessionCaptureConfig.queueEvictionPolicy
+ */
+export type QueueEvictionPolicy = 'drop-oldest' | 'drop-newest';
+
+// ── Screen attribution ──────────────────────────────────────────────────
+
+/**
+ * The screen a tap, scroll, custom event, or frame belongs to.
+ *
+ * Filled in automatically from the current screen maintained by
+ * `<NavigationTracker>` (or `setCurrentScreen()`).
+ */
+export interface ScreenAttribution {
+  /** Screen / route name (e.g. `"Product"`). */
+  screen?: string;
+  /** Nested navigator path of the screen (e.g. `"Tabs/Home/Product"`). */
+  screenPath?: string;
+  /** Route params allowed by `NavigationTracker.trackedRouteParams`. */
+  screenParams?: Record<string, string | number | boolean>;
 }
 
 // ── Frame ───────────────────────────────────────────────────────────────
 
 /** A single captured screenshot with its timestamp. */
-export interface CapturedFrame {
+export interface CapturedFrame extends ScreenAttribution {
   /** Unix timestamp (ms) when the screenshot was taken. */
   timestamp: number;
 
   /** Base-64 encoded JPEG image data. */
   image: string;
+
+  /** Label passed to `captureNow()` for manually requested frames. */
+  label?: string;
+}
+
+/**
+ * How the images of an encrypted payload were sealed.
+ *
+ * Every `image` in the payload (frames, keyframes, and tiles) is
+ * base-64 of a 24-byte nonce followed by a `secretbox`
+ * (XSalsa20-Poly1305) ciphertext of the JPEG bytes, under a random
+ * batch key.  The batch key is `box`-encrypted (X25519 +
+ * XSalsa20-Poly1305) from `ephemeralPublicKey` to the configured
+ * `encryptionPublicKey`.  Use `decryptPayload()` to reverse this.
+ *
+ * @see SessionCaptureConfig.encryptionPublicKey
+ */
+export interface PayloadEncryption {
+  algorithm: 'x25519-xsalsa20-poly1305';
+  /** First 16 hex characters of SHA-256 of the recipient public key. */
+  keyId: string;
+  /** Base-64 public half of the throwaway key pair that wrapped the key. */
+  ephemeralPublicKey: string;
+  /** Base-64 of the 24-byte nonce followed by the wrapped batch key. */
+  wrappedKey: string;
+}
+
+/**
+ * A frame uploaded with `frameEncoding: 'tiles'`.
+ *
+ * A **keyframe** carries the full JPEG in `image`.  A **delta** carries
+ * only the tiles that changed since the frame at `base`; every other
+ * pixel is unchanged.  Deltas must be applied in order, starting from
+ * a keyframe — each batch starts with one.  When a batch is split
+ * (`maxPayloadBytes`), a delta may refer to a frame in an earlier chunk
+ * of the same batch.
+ *
+ * Use `TileDecoder` or `reconstructFrames()` to turn these back into
+ * full frames.
+ */
+export interface TileFrame extends ScreenAttribution {
+  /** Unix timestamp (ms) when the screenshot was taken. */
+  timestamp: number;
+  /** Whether this frame is self-contained. */
+  keyframe: boolean;
+  /** Frame width in pixels. */
+  width: number;
+  /** Frame height in pixels. */
+  height: number;
+  /** Tile edge length in pixels used by the encoder. */
+  tileSize: number;
+  /** Base-64 JPEG of the full frame (keyframes only). */
+  image?: string;
+  /** Timestamp of the frame this delta applies to (deltas only). */
+  base?: number;
+  /** Changed tiles (deltas only; may be empty). */
+  tiles?: FrameTile[];
+  /** Label passed to `captureNow()` for manually requested frames. */
+  label?: string;
+}
+
+/**
+ * One changed region of a delta {@link TileFrame}, in frame pixels.
+ * Edge tiles may be smaller than `tileSize`.
+ */
+export interface FrameTile {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Base-64 JPEG of just this tile. */
+  image: string;
+}
+
+/**
+ * A capture that was skipped because the screen had not changed.
+ *
+ * The replay keeps showing the frame taken at `since`.
+ *
+ * @see SessionCaptureConfig.frameDedup
+ */
+export interface UnchangedFrame {
+  /** Unix timestamp (ms) of the skipped capture. */
+  timestamp: number;
+  /** Timestamp of the last uploaded frame, which still shows the screen. */
+  since: number;
+}
+
+/**
+ * A period during which recording was paused via `pause()`.
+ *
+ * Lets the replay show "recording paused" instead of an unexplained
+ * hole in the timeline.
+ */
+export interface CaptureGap {
+  /** Unix timestamp (ms) when recording was paused. */
+  start: number;
+  /** Unix timestamp (ms) when recording resumed (or the session stopped). */
+  end: number;
+  /** Reason passed to `pause()` (e.g. `"mitid-login"`). */
+  reason?: string;
 }
 
 /**
@@ -170,7 +776,7 @@ export interface CapturedFrame {
  * or **explicitly** via `<TrackedPressable>`.  Both sources are merged
  * into the same upload payload.
  */
-export interface TapEvent {
+export interface TapEvent extends ScreenAttribution {
   /** Tap X coordinate in page-space pixels. */
   x: number;
   /** Tap Y coordinate in page-space pixels. */
@@ -181,12 +787,26 @@ export interface TapEvent {
   normalizedX?: number;
   /** Y coordinate normalised to 0 – 1 (computed from `deviceHeight`). */
   normalizedY?: number;
-  /** Screen / route name where the tap occurred. */
-  screen?: string;
   /** Human-readable label (from `TrackedPressable` or `accessibilityLabel`). */
   label?: string;
   /** Logical category (e.g. `"conversion"`, `"navigation"`, `"cart"`). */
   category?: string;
+  /** Extra data from `TrackedPressable.trackingMetadata`. */
+  metadata?: Record<string, unknown>;
+  /**
+   * Display name of the pressed component (e.g. `"TouchableOpacity"`,
+   * or `"TrackedPressable"` for explicit taps).
+   */
+  componentName?: string;
+  /** `accessibilityRole` (or `role`) of the pressed component. */
+  accessibilityRole?: string;
+  /** `testID` of the pressed component. */
+  testID?: string;
+  /**
+   * Handler prop that fired (e.g. `"onPress"`, `"onLongPress"`,
+   * `"onValueChange"`).
+   */
+  handler?: string;
   /**
    * How the tap was recorded:
    * - `'auto'`     — captured by the global press-capture layer
@@ -209,7 +829,7 @@ export interface TapEvent {
  */
 export interface TrackingEvent {
   /** Event kind. */
-  type: 'press' | 'navigation';
+  type: 'press' | 'navigation' | 'custom' | 'input' | 'gesture';
   /** Unix timestamp (ms) when the event occurred. */
   timestamp: number;
   /** Human-readable label — inferred from `accessibilityLabel` or set explicitly via `TrackedPressable`. */
@@ -224,8 +844,14 @@ export interface TrackingEvent {
    * - `'explicit'` — via `<TrackedPressable>`
    */
   source: 'auto' | 'explicit';
-  /** Component display name (auto-capture only). */
+  /** Display name of the pressed component (press events only). */
   componentName?: string;
+  /** `accessibilityRole` (or `role`) of the pressed component (press events only). */
+  accessibilityRole?: string;
+  /** `testID` of the pressed component (press events only). */
+  testID?: string;
+  /** Handler prop that fired, e.g. `"onLongPress"` (press events only). */
+  handler?: string;
   /** Tap coordinates in page space (press events only). */
   coordinates?: { x: number; y: number };
   /** Screen / route name the event is associated with. */
@@ -237,6 +863,161 @@ export interface TrackingEvent {
    * @see NavigationEvent['trigger']
    */
   navigationTrigger?: NavigationEvent['trigger'];
+  /** Event name passed to `track()` (custom events only). */
+  name?: string;
+  /** Properties passed to `track()` (custom events only). */
+  properties?: Record<string, unknown>;
+  /** Take a screenshot labelled with the event name (custom events only). */
+  screenshot?: boolean;
+  /** What happened to the text field (input events only). */
+  input?: Omit<InputEvent, 'timestamp' | 'source' | keyof ScreenAttribution>;
+  /** The classified gesture (gesture events only). */
+  gesture?: Omit<GestureEvent, 'timestamp' | keyof ScreenAttribution>;
+}
+
+/**
+ * A gesture observed on the provider's root view.
+ *
+ * The root view watches every touch without becoming the responder, so
+ * gestures handled by carousels, maps, or gesture libraries are seen
+ * too — and never intercepted.
+ *
+ * | Type         | Meaning                                                 |
+ * |--------------|---------------------------------------------------------|
+ * | `tap`        | Short touch without movement                            |
+ * | `double-tap` | Second tap within 300 ms of the first, at the same spot |
+ * | `long-press` | Touch held for at least 500 ms without movement         |
+ * | `swipe`      | Touch that moved more than 20 px                        |
+ * | `pinch`      | Two fingers whose distance changed by at least 10 %     |
+ */
+export interface GestureEvent extends ScreenAttribution {
+  /** What kind of gesture it was. */
+  type: 'tap' | 'double-tap' | 'long-press' | 'swipe' | 'pinch';
+  /** Unix timestamp (ms) when the last finger was lifted. */
+  timestamp: number;
+  /** Time from the first finger down to the last finger up, in ms. */
+  durationMs: number;
+  /** X coordinate in page-space pixels where it started (midpoint for pinch). */
+  x: number;
+  /** Y coordinate in page-space pixels where it started (midpoint for pinch). */
+  y: number;
+  /** X coordinate normalised to 0 – 1 (computed from `deviceWidth`). */
+  normalizedX?: number;
+  /** Y coordinate normalised to 0 – 1 (computed from `deviceHeight`). */
+  normalizedY?: number;
+  /** Most fingers on the screen at once. */
+  pointerCount: number;
+  /**
+   * Swipe direction, or `'out'` (fingers spread, zoom in) / `'in'`
+   * (fingers closed, zoom out) for pinches.
+   */
+  direction?: 'up' | 'down' | 'left' | 'right' | 'in' | 'out';
+  /** Distance travelled in pixels (swipe only). */
+  distance?: number;
+  /** Pixels per second for swipes; change in scale per second for pinches. */
+  velocity?: number;
+  /** Final finger distance relative to the initial one (pinch only). */
+  scale?: number;
+}
+
+/**
+ * A business event recorded with `track()` — e.g. `"checkout_started"`
+ * or `"search_performed"` — so replays can be annotated with domain
+ * milestones.
+ *
+ * @see track
+ */
+export interface CustomEvent extends ScreenAttribution {
+  /** Event name passed to `track()`. */
+  name: string;
+  /** Unix timestamp (ms) when the event was tracked. */
+  timestamp: number;
+  /** Properties passed to `track()`.  Must be JSON-serialisable. */
+  properties?: Record<string, unknown>;
+}
+
+/**
+ * A form interaction on a text field.
+ *
+ * Recorded by `<TrackedTextInput>` or, with `enableGlobalInputCapture`,
+ * for every `<TextInput>`.  The typed value is **never** recorded
+ * unless the field is explicitly allow-listed, and never for
+ * `secureTextEntry` fields.
+ *
+ * | Type               | When                                            |
+ * |--------------------|-------------------------------------------------|
+ * | `focus`            | The field gained focus                          |
+ * | `blur`             | The field lost focus                            |
+ * | `submit`           | The keyboard's submit key was pressed           |
+ * | `validation-error` | `TrackedTextInput.validationError` was set      |
+ */
+export interface InputEvent extends ScreenAttribution {
+  /** What happened. */
+  type: 'focus' | 'blur' | 'submit' | 'validation-error';
+  /** Field name (`trackingField`, or inferred from `testID` and friends). */
+  field: string;
+  /** Form the field belongs to (`TrackedTextInput.trackingForm`). */
+  form?: string;
+  /** Unix timestamp (ms) of the interaction. */
+  timestamp: number;
+  /** Number of edits since the field was focused (`blur` and `submit`). */
+  changeCount?: number;
+  /** How long the field was focused, in ms (`blur` only). */
+  durationMs?: number;
+  /** The field's text (`blur` and `submit`, allow-listed fields only). */
+  value?: string;
+  /** Validation message (`validation-error` only). */
+  error?: string;
+  /**
+   * How the event was recorded:
+   * - `'auto'`     — global input capture
+   * - `'explicit'` — via `<TrackedTextInput>`
+   */
+  source: 'auto' | 'explicit';
+}
+
+/**
+ * A sign of user frustration, detected on-device.
+ *
+ * - `'rage-tap'` — `rageTapCount` taps within 40 px of each other
+ *   inside `rageTapWindowMs`.
+ * - `'dead-tap'` — a tap that no tracked press handler responded to,
+ *   e.g. on text or an image that looks like a button.
+ *
+ * Rage taps on a working button also produce a tap per press.  Dead
+ * taps are only detected while global press capture is installed and
+ * effective, and a tap that focuses a text field is never dead.
+ */
+export interface FrustrationSignal extends ScreenAttribution {
+  /** Kind of signal. */
+  type: 'rage-tap' | 'dead-tap';
+  /** Unix timestamp (ms) of the (last) tap. */
+  timestamp: number;
+  /** Tap X coordinate in page-space pixels. */
+  x: number;
+  /** Tap Y coordinate in page-space pixels. */
+  y: number;
+  /** X coordinate normalised to 0 – 1 (computed from `deviceWidth`). */
+  normalizedX?: number;
+  /** Y coordinate normalised to 0 – 1 (computed from `deviceHeight`). */
+  normalizedY?: number;
+  /** Number of taps in the burst (rage taps only). */
+  tapCount?: number;
+  /** Time from the first to the last tap of the burst, in ms (rage taps only). */
+  durationMs?: number;
+}
+
+/**
+ * Options for `track()`.
+ */
+export interface TrackOptions {
+  /**
+   * Take a screenshot right away, labelled with the event name, so the
+   * replay shows what the user saw at that moment.
+   *
+   * @default false
+   */
+  screenshot?: boolean;
 }
 
 /**
@@ -275,7 +1056,7 @@ export interface NavigationEvent {
  *
  * Generated by `<TrackedScrollView>` when the user finishes scrolling.
  */
-export interface ScrollEvent {
+export interface ScrollEvent extends ScreenAttribution {
   /** Vertical scroll offset in pixels. */
   offsetY: number;
   /** Unix timestamp (ms) when the scroll was recorded. */
@@ -295,6 +1076,45 @@ export interface DeviceInfo {
   deviceHeight: number;
 }
 
+/**
+ * Marks the start or end of a session in the upload timeline.
+ *
+ * A marker carries its own `sessionId`, which can differ from the
+ * payload's — e.g. the end of a session that timed out while the app
+ * was closed is reported in the first payload of the next session.
+ */
+export interface SessionMarker {
+  /** Whether the session started or ended. */
+  type: 'start' | 'end';
+  /** The session this marker belongs to. */
+  sessionId: string;
+  /** Unix timestamp (ms) of the start / end. */
+  timestamp: number;
+  /**
+   * Why the session started or ended:
+   * - `'new'`         — first session on this install (or storage was cleared)
+   * - `'timeout'`     — the inactivity window (`sessionTimeoutMs`) elapsed
+   * - `'user-change'` — `identify()` switched to a different user
+   */
+  reason: 'new' | 'timeout' | 'user-change';
+}
+
+/**
+ * Links the anonymous ID of this install to an identified user.
+ *
+ * Recorded when `identify()` is called while the user is anonymous,
+ * so the backend can merge earlier anonymous sessions into the
+ * user's history.
+ */
+export interface AliasEvent {
+  /** The persisted anonymous ID used before identification. */
+  anonymousId: string;
+  /** The user ID passed to `identify()`. */
+  userId: string;
+  /** Unix timestamp (ms) when `identify()` was called. */
+  timestamp: number;
+}
+
 // ── Upload payload ──────────────────────────────────────────────────────
 
 /**
@@ -305,8 +1125,20 @@ export interface DeviceInfo {
  * payloads into a single replayable session.
  */
 export interface UploadPayload {
-  /** Unique ID for this session (generated once per app mount). */
+  /**
+   * Unique ID for this session.  Persisted across launches and rotated
+   * after `sessionTimeoutMs` of inactivity.
+   */
   sessionId: string;
+  /**
+   * ID shared by all chunks built from one flush.  A flush larger than
+   * `maxPayloadBytes` is split into `batchCount` chunks.
+   */
+  batchId: string;
+  /** 0-based position of this chunk within its batch. */
+  batchSequence: number;
+  /** Number of chunks in the batch (`1` if it was not split). */
+  batchCount: number;
   /** The user ID at the time of upload (may be anonymous or identified). */
   userId: string;
   /** Device model name (e.g. `"iPhone 15 Pro"`) or `"{OS}-{version}"`. */
@@ -319,12 +1151,73 @@ export interface UploadPayload {
   deviceHeight?: number;
   /** Captured screenshot frames since the last flush. */
   frames: CapturedFrame[];
+  /**
+   * Frames captured since the last flush with `frameEncoding: 'tiles'`
+   * (empty otherwise).
+   */
+  tileFrames: TileFrame[];
+  /** Captures skipped since the last flush because nothing changed. */
+  unchangedFrames: UnchangedFrame[];
   /** Recorded tap events since the last flush. */
   taps: TapEvent[];
   /** Recorded scroll events since the last flush. */
   scrolls: ScrollEvent[];
   /** Recorded navigation events since the last flush. */
   navigations: NavigationEvent[];
+  /** Periods since the last flush during which recording was paused. */
+  gaps: CaptureGap[];
+  /** Business events recorded with `track()` since the last flush. */
+  customEvents: CustomEvent[];
+  /** Text field interactions since the last flush. */
+  inputs: InputEvent[];
+  /** Gestures observed on the root view since the last flush. */
+  gestures: GestureEvent[];
+  /** Rage taps and dead taps detected since the last flush. */
+  frustrationSignals: FrustrationSignal[];
+  /**
+   * Present when images are encrypted (`encryptionPublicKey`).  All
+   * chunks of a batch share the same key.
+   */
+  encryption?: PayloadEncryption;
+  /** Consent state at the time the payload was built. */
+  consent: ConsentState;
+  /** Session start / end markers since the last flush. */
+  sessionEvents: SessionMarker[];
+  /** Anonymous → identified user links since the last flush. */
+  aliases: AliasEvent[];
+}
+
+// ── Upload result ───────────────────────────────────────────────────────
+
+/**
+ * Outcome of a single `/ingest` upload attempt, reported through
+ * `onUploadResult`.
+ *
+ * | Status        | Meaning                                                   |
+ * |---------------|-----------------------------------------------------------|
+ * | `success`     | `2xx` — payload removed from the offline queue            |
+ * | `retry`       | Network error, `408`, `425`, `429`, or `5xx` — kept and retried after `retryInMs` |
+ * | `split`       | `413` — payload split in half, chunks queued in its place |
+ * | `dropped`     | Other `4xx` (e.g. `400`), or a `413` for a payload that cannot be split — payload discarded |
+ * | `auth-failed` | `401` / `403` — uploads stop until the next app launch    |
+ */
+export interface UploadResult {
+  /** What happened to the payload. */
+  status: 'success' | 'retry' | 'split' | 'dropped' | 'auth-failed';
+  /** HTTP status code, or `undefined` if the request never got a response. */
+  httpStatus?: number;
+  /** Error message for network failures. */
+  error?: string;
+  /** Session the payload belongs to. */
+  sessionId: string;
+  /** How many times this payload has been attempted, including this one. */
+  attempt: number;
+  /** Milliseconds until the next retry (`'retry'` only). */
+  retryInMs?: number;
+  /** Number of frames in the payload. */
+  frameCount: number;
+  /** Unix timestamp (ms) of the attempt. */
+  timestamp: number;
 }
 
 // ── Context value ───────────────────────────────────────────────────────
@@ -332,12 +1225,15 @@ export interface UploadPayload {
 /**
  * Value returned by the `useSessionCapture()` hook.
  *
- * Provides access to the capture manager, session state, and the
- * `identify()` API for linking anonymous sessions to real users.
+ * Provides access to the capture manager, session state, the
+ * `identify()` API for linking anonymous sessions to real users, and
+ * manual capture control (`pause()`, `resume()`, `captureNow()`), and
+ * custom event tracking (`track()`).
  *
  * @example
  * ```tsx
- * const { isActive, manager, identify, userId, isAnonymous } = useSessionCapture();
+ * const { isActive, manager, identify, userId, isAnonymous, pause, resume } =
+ *   useSessionCapture();
  * ```
  *
  * @see useSessionCapture
@@ -356,9 +1252,10 @@ export interface CaptureContextValue {
   /**
    * Whether capture is **active** for this user.
    *
-   * `true` when the user was included by deterministic sampling
-   * and the manager is running.  `false` means no data is being
-   * captured (the SDK is a no-op for this session).
+   * `true` when the user was included by deterministic sampling,
+   * consent is `'granted'`, and the manager is running.  `false`
+   * means no data is being captured (the SDK is a no-op for this
+   * session).
    */
   isActive: boolean;
 
@@ -367,7 +1264,8 @@ export interface CaptureContextValue {
    *
    * Call this after the user logs in to replace the anonymous
    * identifier with their real user ID.  The new ID is used for
-   * all subsequent uploads within the same session.
+   * all subsequent uploads within the same session, and an
+   * {@link AliasEvent} links the anonymous ID to it.
    *
    * @example
    * ```tsx
@@ -380,9 +1278,88 @@ export interface CaptureContextValue {
   /** The current user ID (anonymous UUID or the value passed to `identify()`). */
   userId: string;
 
+  /**
+   * The current session ID.  Survives restarts within
+   * `sessionTimeoutMs` and changes when a new session starts.
+   */
+  sessionId: string;
+
   /**
    * `true` until `identify()` is called or a `userId` prop is
    * provided to `<SessionCaptureProvider>`.
    */
   isAnonymous: boolean;
+
+  /**
+   * The anonymous ID of this install.
+   *
+   * Persisted across launches so anonymous users keep their sampling
+   * bucket and their sessions can be stitched together.
+   */
+  anonymousId: string;
+
+  /**
+   * Forget the current user — call it on logout.
+   *
+   * Rotates the persisted anonymous ID, switches back to anonymous
+   * mode, and starts a new session.
+   */
+  reset: () => void;
+
+  /**
+   * Pause recording — no screenshots or events are captured until
+   * `resume()` is called.
+   *
+   * Use it around sensitive flows (e.g. MitID login).  The paused
+   * period is uploaded as a {@link CaptureGap} so the replay shows
+   * "recording paused" rather than a gap with no explanation.
+   *
+   * @param reason  Optional label stored with the gap.
+   */
+  pause: (reason?: string) => void;
+
+  /** Resume recording after `pause()`.  No-op if not paused. */
+  resume: () => void;
+
+  /**
+   * Take a screenshot right now, bypassing the throttle.
+   *
+   * Still respects sampling, `pause()`, and `maxFrames`.
+   *
+   * @param label  Optional label stored on the frame.
+   */
+  captureNow: (label?: string) => Promise<void>;
+
+  /**
+   * Record a business event in the session timeline.
+   *
+   * Same as the standalone `track()` export.
+   *
+   * @example
+   * ```tsx
+   * const { track } = useSessionCapture();
+   * track('checkout_started', { items: 3 }, { screenshot: true });
+   * ```
+   */
+  track: (name: string, properties?: Record<string, unknown>, options?: TrackOptions) => void;
+
+  /** `true` between `pause()` and `resume()`. */
+  isPaused: boolean;
+
+  /** The current consent state. */
+  consent: ConsentState;
+
+  /**
+   * Record the user's consent decision.
+   *
+   * The decision is persisted across launches.  `'denied'` purges all
+   * buffered and queued data immediately.
+   *
+   * @example
+   * ```tsx
+   * const { setConsent } = useSessionCapture();
+   * <Button title="Accept" onPress={() => setConsent('granted')} />
+   * ```
+   */
+  setConsent: (state: ConsentState) => void;
 }
@@ -0,0 +1,79 @@
+// ── Response classification ──────────────────────────────────────────
+
+/**
+ * How the uploader should react to an `/ingest` response.
+ *
+ * | Class       | Statuses                         | Action                         |
+ * |-------------|----------------------------------|--------------------------------|
+ * | `success`   | `2xx`                            | Remove from queue              |
+ * | `retryable` | `408`, `425`, `429`, `5xx`, none | Keep queued, back off          |
+ * | `auth`      | `401`, `403`                     | Keep queued, stop uploading    |
+ * | `too-large` | `413`                            | Split and re-queue the payload |
+ * | `fatal`     | any other `4xx` (e.g. `400`)     | Drop the payload               |
+ *
+ * @internal
+ */
+export type ResponseClass = 'success' | 'retryable' | 'auth' | 'too-large' | 'fatal';
+
+/**
+ * Classify an HTTP status code.  Pass `undefined` for a network error
+ * (no response at all), which is always retryable.
+ *
+ * @internal
+ */
+export function classifyStatus(status: number | undefined): ResponseClass {
+  if (status === undefined) return 'retryable';
+  if (status >= 200 && status < 300) return 'success';
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 413) return 'too-large';
+  if (status === 408 || status === 425 || status === 429 || status >= 500) {
+    return 'retryable';
+  }
+  return 'fatal';
+}
+
+// ── Delays ────────────────────────────────────────────────────────────
+
+/**
+ * Parse a `Retry-After` header into a delay in milliseconds.
+ *
+ * Accepts both forms allowed by RFC 9110: delta-seconds (`"120"`) and
+ * an HTTP date.  Returns `undefined` if the header is missing or
+ * unparseable.
+ *
+ * @internal
+ */
+export function parseRetryAfter(
+  header: string | null | undefined,
+  now: number = Date.now(),
+): number | undefined {
+  if (!header) return undefined;
+  const trimmed = header.trim();
+
+  if (/^\d+$/.test(trimmed)) return parseInt(trimmed, 10) * 1000;
+
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, date - now);
+}
+
+/**
+ * Exponential backoff with "equal jitter": a random delay between half
+ * and all of `min(maxMs, baseMs · 2^(attempt − 1))`.
+ *
+ * Jitter spreads retries from many devices that went offline at the
+ * same time so they don't hammer the backend in lockstep.
+ *
+ * @param attempt  Number of consecutive failures so far (≥ 1).
+ *
+ * @internal
+ */
+export function computeBackoffMs(
+  attempt: number,
+  baseMs: number,
+  maxMs: number,
+  random: () => number = Math.random,
+): number {
+  const ceiling = Math.min(maxMs, baseMs * 2 ** Math.max(0, attempt - 1));
+  return Math.round(ceiling / 2 + random() * (ceiling / 2));
+}
@@ -0,0 +1,272 @@
+import { STORAGE_KEY_PREFIX } from './storage';
+import type { StorageAdapter } from './storage';
+import type { QueueEvictionPolicy, UploadPayload } from './types';
+
+// ── Types ─────────────────────────────────────────────────────────────
+
+/**
+ * Bookkeeping for a single queued upload.
+ *
+ * Only this metadata lives in the queue index — the payload itself is
+ * stored under its own key so a single oversized entry can never
+ * corrupt the whole queue.
+ *
+ * @internal
+ */
+export interface QueuedUploadEntry {
+  /** Random ID, also used to derive the payload storage key. */
+  id: string;
+  /** Unix timestamp (ms) when the payload was enqueued. */
+  enqueuedAt: number;
+  /** Serialized size of the payload in bytes (approximate). */
+  bytes: number;
+  /** Number of upload attempts made so far. */
+  attempts: number;
+}
+
+/**
+ * Options for the {@link UploadQueue}.
+ *
+ * @internal
+ */
+export interface UploadQueueOptions {
+  storage: StorageAdapter;
+  maxEntries: number;
+  maxBytes: number;
+  evictionPolicy: QueueEvictionPolicy;
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────
+
+const INDEX_KEY = `${STORAGE_KEY_PREFIX}outbox`;
+
+/** Storage key for the payload of a queued entry. */
+function payloadKey(id: string): string {
+  return `${INDEX_KEY}:${id}`;
+}
+
+/** Random, collision-resistant-enough ID for queue entries. */
+function entryId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+// ── Queue ─────────────────────────────────────────────────────────────
+
+/**
+ * Durable FIFO outbox for {@link UploadPayload}s.
+ *
+ * Every payload is written to storage **before** an upload is
+ * attempted and removed only after the backend acknowledged it, so
+ * data survives failed requests, app kills, and long offline periods.
+ *
+ * The queue is bounded by `maxEntries` and `maxBytes`.  When a new
+ * payload would exceed either limit, entries are evicted according to
+ * `evictionPolicy`:
+ *
+ * - `'drop-oldest'` — discard the oldest queued payloads (default).
+ * - `'drop-newest'` — keep the backlog and discard the new payload.
+ *
+ * All storage errors are swallowed — in the worst case the queue
+ * degrades to in-memory behaviour for the current launch.
+ *
+ * @internal
+ */
+export class UploadQueue {
+  private entries: QueuedUploadEntry[] = [];
+  private loading: Promise<void> | null = null;
+  private writeChain: Promise<void> = Promise.resolve();
+  /** Bumped by `clear()` so enqueues started before it are discarded. */
+  private generation = 0;
+
+  constructor(private opts: UploadQueueOptions) {}
+
+  /** Number of payloads currently queued. */
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Restore the queue index persisted by a previous launch.
+   *
+   * Idempotent — subsequent calls return the same promise.  Every
+   * other method awaits this internally.
+   */
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.opts.storage
+        .getItem(INDEX_KEY)
+        .then((raw) => {
+          if (!raw) return;
+          const persisted = JSON.parse(raw) as QueuedUploadEntry[];
+          if (!Array.isArray(persisted)) return;
+          const known = new Set(this.entries.map((e) => e.id));
+          // Entries persisted by earlier launches go first (FIFO).
+          this.entries = [
+            ...persisted.filter((e) => !known.has(e.id)),
+            ...this.entries,
+          ];
+        })
+        .catch(() => {
+          // Corrupt or unreadable index – start with an empty queue.
+        });
+    }
+    return this.loading;
+  }
+
+  /**
+   * Persist `payloads` (e.g. the chunks of one flush) and append them
+   * to the queue in order, evicting entries if the size cap would be
+   * exceeded.
+   *
+   * If `clear()` is called before every chunk is written, the chunks
+   * not yet written are discarded too — no part of a flush started
+   * before a purge may outlive it.
+   */
+  async enqueue(payloads: UploadPayload[]): Promise<void> {
+    const generation = this.generation;
+    await this.load();
+
+    for (const payload of payloads) {
+      if (generation !== this.generation) return;
+
+      const body = JSON.stringify(payload);
+      const entry: QueuedUploadEntry = {
+        id: entryId(),
+        enqueuedAt: Date.now(),
+        bytes: body.length,
+        attempts: 0,
+      };
+
+      if (!this.makeRoomFor(entry)) continue;
+
+      this.entries.push(entry);
+      await this.write(async () => {
+        await this.opts.storage.setItem(payloadKey(entry.id), body);
+        await this.persistIndex();
+      });
+    }
+  }
+
+  /**
+   * Return the oldest queued entry together with its payload, or
+   * `undefined` if the queue is empty.
+   *
+   * Entries whose payload can no longer be read are dropped.
+   */
+  async peek(): Promise<{ entry: QueuedUploadEntry; payload: UploadPayload } | undefined> {
+    await this.load();
+
+    while (this.entries.length > 0) {
+      const entry = this.entries[0];
+      try {
+        const raw = await this.opts.storage.getItem(payloadKey(entry.id));
+        if (raw) return { entry, payload: JSON.parse(raw) as UploadPayload };
+      } catch {
+        // Fall through – unreadable payload is treated as missing.
+      }
+      await this.remove(entry.id);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Replace an entry with `payloads`, in its place in the queue.
+   *
+   * Used when the backend rejects a payload as too large and it is
+   * split into smaller chunks.
+   */
+  async replace(id: string, payloads: UploadPayload[]): Promise<void> {
+    await this.load();
+    const index = this.entries.findIndex((e) => e.id === id);
+    if (index === -1) return;
+
+    const bodies = payloads.map((payload) => JSON.stringify(payload));
+    const added: QueuedUploadEntry[] = bodies.map((body) => ({
+      id: entryId(),
+      enqueuedAt: Date.now(),
+      bytes: body.length,
+      attempts: 0,
+    }));
+    this.entries.splice(index, 1, ...added);
+    await this.write(async () => {
+      for (let i = 0; i < added.length; i++) {
+        await this.opts.storage.setItem(payloadKey(added[i].id), bodies[i]);
+      }
+      await this.opts.storage.removeItem(payloadKey(id));
+      await this.persistIndex();
+    });
+  }
+
+  /** Record a failed upload attempt for the given entry. */
+  async markAttempt(id: string): Promise<void> {
+    const entry = this.entries.find((e) => e.id === id);
+    if (!entry) return;
+    entry.attempts++;
+    await this.write(() => this.persistIndex());
+  }
+
+  /** Remove an entry (after a successful upload, or on eviction). */
+  async remove(id: string): Promise<void> {
+    await this.load();
+    this.entries = this.entries.filter((e) => e.id !== id);
+    await this.write(async () => {
+      await this.opts.storage.removeItem(payloadKey(id));
+      await this.persistIndex();
+    });
+  }
+
+  /**
+   * Remove every queued payload from memory and storage.
+   *
+   * Enqueues that are still in flight when this is called are
+   * discarded as well.
+   */
+  async clear(): Promise<void> {
+    this.generation++;
+    await this.load();
+    const removed = this.entries;
+    this.entries = [];
+    await this.write(async () => {
+      await Promise.all(removed.map((e) => this.opts.storage.removeItem(payloadKey(e.id))));
+      await this.persistIndex();
+    });
+  }
+
+  // ── Internals ──────────────────────────────────────────────────────
+
+  /**
+   * Apply the eviction policy so `entry` fits within the caps.
+   *
+   * @returns `false` if `entry` itself should be discarded.
+   */
+  private makeRoomFor(entry: QueuedUploadEntry): boolean {
+    const { maxEntries, maxBytes, evictionPolicy } = this.opts;
+    if (entry.bytes > maxBytes) return false;
+
+    const totalBytes = () => this.entries.reduce((sum, e) => sum + e.bytes, 0);
+    const overLimit = () =>
+      this.entries.length + 1 > maxEntries || totalBytes() + entry.bytes > maxBytes;
+
+    if (!overLimit()) return true;
+    if (evictionPolicy === 'drop-newest') return false;
+
+    while (this.entries.length > 0 && overLimit()) {
+      const evicted = this.entries.shift() as QueuedUploadEntry;
+      this.write(() => this.opts.storage.removeItem(payloadKey(evicted.id)));
+    }
+    return !overLimit();
+  }
+
+  private persistIndex(): Promise<void> {
+    return this.opts.storage.setItem(INDEX_KEY, JSON.stringify(this.entries));
+  }
+
+  /** Serialise storage writes so index updates never interleave. */
+  private write(op: () => Promise<void>): Promise<void> {
+    this.writeChain = this.writeChain.then(op).catch(() => {
+      // Storage failure is non-fatal – the entry stays queued in memory.
+    });
+    return this.writeChain;
+  }
+}
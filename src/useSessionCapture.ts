@@ -14,7 +14,17 @@ import type { CaptureContextValue } from './types';
  *  - `isActive`    — whether this user is being sampled
  *  - `identify`    — link this session to a real user after login
  *  - `userId`      — current user ID (anonymous or identified)
+ *  - `sessionId`   — current session ID (persisted across launches)
  *  - `isAnonymous` — `true` until `identify()` is called
+ *  - `anonymousId` — persisted anonymous ID of this install
+ *  - `reset`       — forget the user on logout (new anonymous ID + session)
+ *  - `pause`       — stop recording during sensitive flows
+ *  - `resume`      — resume recording after `pause()`
+ *  - `captureNow`  — take a labelled screenshot immediately
+ *  - `track`       — record a business event in the session timeline
+ *  - `isPaused`    — `true` between `pause()` and `resume()`
+ *  - `consent`     — current consent state
+ *  - `setConsent`  — record the user's opt-in / opt-out decision
  *
  * @example
  * ```tsx
@@ -27,6 +37,11 @@ import type { CaptureContextValue } from './types';
  *
  * // Identify user after login
  * identify('user-42');
+ *
+ * // Don't record the MitID login flow
+ * pause('mitid-login');
+ * // …later
+ * resume();
  * ```
  *
  * @throws Error if used outside of `<SessionCaptureProvider>`.